@@ -0,0 +1,643 @@
+import { parseArgs } from 'node:util';
+import { mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+import { SimulationConfig, SimulationState } from '../simulation/types';
+import { DEFAULT_CONFIG } from '../simulation/config';
+import { createInitialState, runRound } from '../simulation/engine';
+import { randomSeed } from '../simulation/math';
+import { AggregatorRule, AGGREGATOR_LABELS } from '../simulation/aggregators';
+import { AttackKind, ATTACK_LABELS } from '../simulation/attacks';
+import { ThresholdMethod, THRESHOLD_LABELS } from '../simulation/detection';
+import { ArchitectureKind, ARCHITECTURE_LABELS, ModelConfig, buildModelSpec } from '../simulation/model';
+import { AttackerPlacement, ATTACKER_PLACEMENT_LABELS, PopulationConfig } from '../simulation/population';
+import { PartitionScheme, PARTITION_LABELS, PARTITION_PARAM, withPartitionParam } from '../simulation/partition';
+import { Scenario, PRESETS, scenarioFromJSON } from '../simulation/scenario';
+import { DefenseToggles, DEFENSE_FLAGS, ALL_DEFENSE_COMBINATIONS, defenseLabel } from '../simulation/ablation';
+import { PrivacyConfig, PrivacyMode, PRIVACY_MODE_LABELS, privacyLabel } from '../simulation/privacy';
+import { TargetConfig, TargetMode, TARGET_MODE_LABELS, parseIndexList, targetLabel } from '../simulation/targets';
+import { RecoveryConfig, RecoveryMode, RECOVERY_MODE_LABELS, recoveryLabel } from '../simulation/recovery';
+import { DumpFile, GradientDump, parseGradientDump, createReplayState, replayRound } from '../simulation/replay';
+import { RepeatMetric, REPEAT_METRICS, repeatSeeds, finalMetrics } from '../simulation/repeat';
+import { appendRound, createRunLog } from '../simulation/runlog';
+import { meanCI, pairedTest } from '../simulation/statistics';
+
+// --- Batch Runner ---
+// Sweeps a grid of environment settings and defense toggles headlessly and
+// writes one row per (configuration, round) to CSV and/or JSON. A scenario file
+// (exported from the browser) or a built-in preset replaces the defaults below.
+//
+//   npm run batch -- --rounds 100 --partition dirichlet --partition-param 0.1,0.5,10 --attacks scaling,alie --defenses all --out results/sweep
+//   npm run batch -- --scenario my-run.json --out results/my-run
+//   npm run batch -- --defenses none,momentum+stiffness+clustering --repeats 20 --out results/significance
+//   npm run batch -- --attacks scaling --target full,trigger,lowFim --target-move 10 --out results/targets
+//   npm run batch -- --recovery off,rollback,unlearn --asr-spike 0.2 --out results/recovery
+//   npm run batch -- --import dumps/resnet-run --defenses all --aggregators fedavg,median --out results/resnet
+
+// --reputation values: which of the reputation mechanisms act on the aggregation
+const REPUTATION_MODES: Record<string, { downweight: boolean; ban: boolean }> = {
+  off: { downweight: false, ban: false },
+  downweight: { downweight: true, ban: false },
+  ban: { downweight: false, ban: true },
+  both: { downweight: true, ban: true }
+};
+
+interface RoundRow {
+  run: number;
+  seed: number;
+  defenses: string;
+  aggregator: AggregatorRule;
+  partition: PartitionScheme | 'imported';
+  partitionParam: number | ''; // Value of the scheme's parameter (empty for iid and imported runs)
+  attack: AttackKind | 'imported';
+  target: string; // targetLabel of the run, e.g. lowFim:0.1 (imported for replays)
+  dp: string; // privacyLabel of the run, e.g. central:before
+  recovery: RecoveryMode;
+  round: number;
+  acc: number;
+  asr: number;
+  participants: number;
+  accepted: number;
+  tp: number; // Malicious rejected
+  fp: number; // Benign rejected
+  tn: number;
+  fn: number;
+  precision: number;
+  recall: number;
+  fpr: number;
+  f1: number;
+  epsilon: number; // Privacy budget spent so far
+  recoveryEvent: 'rollback' | 'unlearn' | ''; // Recovery the round ended with (acc/asr are after it)
+  roundsLost: number; // Rounds of training a rollback in this round undid
+}
+
+// One row per (configuration, metric) of a repeated sweep: the metric over the seeds, and a
+// paired comparison with the first configuration of the grid (empty on the first itself)
+interface StatsRow {
+  defenses: string;
+  aggregator: AggregatorRule;
+  partition: PartitionScheme | 'imported';
+  partitionParam: number | '';
+  attack: AttackKind | 'imported';
+  target: string;
+  dp: string;
+  recovery: RecoveryMode;
+  metric: RepeatMetric; // acc/asr after the last round, recall/fpr pooled over every round
+  n: number;
+  mean: number;
+  sd: number;
+  ciLow: number; // 95% confidence interval of the mean
+  ciHigh: number;
+  diff: number | ''; // Mean paired difference (this configuration - the first)
+  diffLow: number | '';
+  diffHigh: number | '';
+  t: number | '';
+  p: number | ''; // Two-sided paired t-test
+  wilcoxonP: number | ''; // Two-sided Wilcoxon signed-rank test
+}
+
+// A configuration of the grid and the final metrics of each of its seeds
+interface ConfigGroup {
+  columns: Pick<StatsRow, 'defenses' | 'aggregator' | 'partition' | 'partitionParam' | 'attack' | 'target' | 'dp' | 'recovery'>;
+  finals: Record<RepeatMetric, number>[];
+}
+
+
+const USAGE = `Usage: npm run batch -- [options]
+
+  --scenario <file>   Scenario JSON (exported from the browser) to start from: its settings,
+                      seed and round count become the defaults of every option below
+  --preset <name>     Built-in scenario instead: ${Object.keys(PRESETS).join(', ')}
+  --import <path>     Replay a gradient dump (directory or JSON file, see README) instead of
+                      simulating clients; the partition, attack, model, population and recovery
+                      options are ignored, and --rounds defaults to the dump's round count
+  --rounds <n>        Rounds per run (default 100, or every round of an imported dump)
+  --partition <s>     Non-IID data partition: ${Object.keys(PARTITION_LABELS).join(', ')}
+                      (default ${DEFAULT_CONFIG.partition.scheme})
+  --partition-param <list>
+                      Comma-separated values of the scheme's parameter (dirichlet: alpha,
+                      shards: classes per client, quantity: size sigma, featureShift: shift std;
+                      default: the scheme's default)
+  --attacks <list>    Comma-separated attacks from ${Object.keys(ATTACK_LABELS).join(', ')}
+                      (default ${DEFAULT_CONFIG.attack.kind}; each with its default parameters,
+                      or the scenario's)
+  --defenses <list>   "all" for every toggle combination, or a comma-separated list
+                      of "+"-joined flags from momentum, stiffness, clustering, none
+                      (default all; with a scenario, its toggles)
+  --aggregators <list>
+                      Comma-separated aggregation rules from
+                      ${Object.keys(AGGREGATOR_LABELS).join(', ')} (default fedavg)
+  --threshold <m>     Detection threshold method: ${Object.keys(THRESHOLD_LABELS).join(', ')}
+                      (default ${DEFAULT_CONFIG.detection.thresholdMethod})
+  --model <arch>      Model architecture: ${Object.keys(ARCHITECTURE_LABELS).join(', ')}
+                      (default ${DEFAULT_CONFIG.model.architecture})
+  --hidden-units <n>  MLP hidden layer width (default ${DEFAULT_CONFIG.model.hiddenUnits})
+  --conv-filters <n>  CNN filter count (default ${DEFAULT_CONFIG.model.convFilters})
+  --clients <n>       Registered clients (default ${DEFAULT_CONFIG.population.numClients})
+  --malicious-ratio <x>
+                      Share of attackers among them (default ${DEFAULT_CONFIG.population.maliciousRatio})
+  --placement <p>     Attacker ids: ${Object.keys(ATTACKER_PLACEMENT_LABELS).join(', ')} (default ${DEFAULT_CONFIG.population.attackerPlacement})
+  --participation <x> Fraction of clients sampled per round (default ${DEFAULT_CONFIG.population.participation})
+  --dropout <x>       Probability a sampled client never reports (default ${DEFAULT_CONFIG.population.dropoutRate})
+  --stragglers <x>    Probability an honest client trains on a stale model (default ${DEFAULT_CONFIG.population.stragglerRate})
+  --churn <x>         Per-round probability a client is replaced (default ${DEFAULT_CONFIG.population.churnRate})
+  --attack-window <a:b>
+                      Rounds attackers are active, e.g. 30:60 or 30: (default ${DEFAULT_CONFIG.population.attackStart}:)
+  --fim-decay <x>     Momentum FIM EMA decay (default 0.9)
+  --fim-refresh <n>   Re-estimate the FIM every n rounds (default 1)
+  --reputation <m>    What client reputation does: ${Object.keys(REPUTATION_MODES).join(', ')} (default off)
+  --ban-after <n>     Violation points before a client is banned (default ${DEFAULT_CONFIG.reputation.banAfter})
+  --target <list>     Comma-separated attack target regions from ${Object.keys(TARGET_MODE_LABELS).join(', ')}
+                      (default ${DEFAULT_CONFIG.target.mode}; ignored for replays)
+  --target-indices <s>
+                      Index set of the indices target, e.g. 0-4;9;20-31 (default ${DEFAULT_CONFIG.target.indices})
+  --target-layer <n>  Layer of the layer target (default ${DEFAULT_CONFIG.target.layer})
+  --target-fraction <x>
+                      Share of parameters of the random and lowFim targets (default ${DEFAULT_CONFIG.target.fraction})
+  --target-move <n>   Rounds between target moves, 0 = fixed (default ${DEFAULT_CONFIG.target.moveEvery})
+  --dp <list>         Comma-separated DP modes from ${Object.keys(PRIVACY_MODE_LABELS).join(', ')}, each optionally
+                      followed by :before or :after (the FIM defenses; default before),
+                      e.g. off,central:before,central:after (default off)
+  --clip-norm <x>     DP per-client L2 clip norm (default ${DEFAULT_CONFIG.privacy.clipNorm})
+  --epsilon <x>       DP target epsilon (default ${DEFAULT_CONFIG.privacy.epsilon})
+  --delta <x>         DP target delta (default ${DEFAULT_CONFIG.privacy.delta})
+  --dp-rounds <n>     Rounds the DP budget is spread over (default ${DEFAULT_CONFIG.privacy.rounds})
+  --recovery <list>   Comma-separated recovery modes from ${Object.keys(RECOVERY_MODE_LABELS).join(', ')}
+                      (default ${DEFAULT_CONFIG.recovery.mode})
+  --recovery-window <n>
+                      Rounds of checkpoints kept (default ${DEFAULT_CONFIG.recovery.window})
+  --fim-drift <x>     Rollback when the FIM change exceeds x times its recent median (0 = off; default ${DEFAULT_CONFIG.recovery.fimDrift})
+  --stiffness-rise <x>
+                      Rollback when the top accepted stiffness exceeds x times its recent median (0 = off; default ${DEFAULT_CONFIG.recovery.stiffnessRise})
+  --asr-spike <x>     Rollback when ASR rises by more than x in a round (0 = off; default ${DEFAULT_CONFIG.recovery.asrSpike})
+  --rewind <n>        Rounds a rollback undoes at least (default ${DEFAULT_CONFIG.recovery.rewind})
+  --backoff <n>       Rounds anomalies are ignored after a rollback, doubled per consecutive rollback
+                      (0 = none; default ${DEFAULT_CONFIG.recovery.backoff})
+  --unlearn-after <x> Violation points within the checkpoint window before a client's contributions
+                      are unlearned (default ${DEFAULT_CONFIG.recovery.unlearnAfter})
+  --seed <n>          Seed shared by every run so configurations see identical
+                      client draws (default: random, printed at start)
+  --repeats <k>       Run every configuration over seeds seed..seed+k-1 (default 1). With k > 1
+                      also writes <out>.stats.csv/json: per-configuration means with 95% CIs,
+                      and paired t- and Wilcoxon tests against the first configuration
+  --format <list>     csv, json or csv,json (default csv,json)
+  --out <prefix>      Output path without extension (default results/batch)
+  --help              Show this message`;
+
+const parseNumberList = (name: string, raw: string): number[] => {
+  const values = raw.split(',').map(s => s.trim()).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`--${name} expects a comma-separated list of numbers, got "${raw}"`);
+  }
+  return values;
+};
+
+const parseDefenses = (raw: string): DefenseToggles[] => {
+  if (raw === 'all') {
+    // Every combination of the three proposed mechanisms; "none" is the magnitude-only baseline
+    return ALL_DEFENSE_COMBINATIONS;
+  }
+  return raw.split(',').map(s => s.trim()).filter(Boolean).map(combo => {
+    const toggles: DefenseToggles = { useMomentumFIM: false, useStiffnessMask: false, useLayerWeightedClustering: false };
+    if (combo === 'none') return toggles;
+    combo.split('+').forEach(flag => {
+      const key = DEFENSE_FLAGS[flag];
+      if (!key) throw new Error(`Unknown defense "${flag}" (expected ${Object.keys(DEFENSE_FLAGS).join(', ')} or none)`);
+      toggles[key] = true;
+    });
+    return toggles;
+  });
+};
+
+// Target modes share every other target setting
+const parseTargets = (raw: string, base: TargetConfig): TargetConfig[] =>
+  raw.split(',').map(s => s.trim()).filter(Boolean).map(mode => {
+    if (!(mode in TARGET_MODE_LABELS)) throw new Error(`Unknown target mode "${mode}" (expected ${Object.keys(TARGET_MODE_LABELS).join(', ')})`);
+    return { ...base, mode: mode as TargetMode };
+  });
+
+const parseRecovery = (raw: string, base: RecoveryConfig): RecoveryConfig[] =>
+  raw.split(',').map(s => s.trim()).filter(Boolean).map(mode => {
+    if (!(mode in RECOVERY_MODE_LABELS)) throw new Error(`Unknown recovery mode "${mode}" (expected ${Object.keys(RECOVERY_MODE_LABELS).join(', ')})`);
+    return { ...base, mode: mode as RecoveryMode };
+  });
+
+// "central:after" -> mode and placement; the rest of the privacy settings come from `base`
+const parsePrivacy = (raw: string, base: PrivacyConfig): PrivacyConfig[] =>
+  raw.split(',').map(s => s.trim()).filter(Boolean).map(entry => {
+    const [mode, placement = 'before'] = entry.split(':');
+    if (!(mode in PRIVACY_MODE_LABELS)) throw new Error(`Unknown DP mode "${mode}" (expected ${Object.keys(PRIVACY_MODE_LABELS).join(', ')})`);
+    if (placement !== 'before' && placement !== 'after') throw new Error(`DP placement must be before or after, got "${placement}"`);
+    return { ...base, mode: mode as PrivacyMode, placement: placement === 'before' ? 'beforeDefense' : 'afterDefense' };
+  });
+
+const parseFraction = (name: string, raw: string, max = 1): number => {
+  const value = Number(raw);
+  if (!(value >= 0 && value <= max)) throw new Error(`--${name} must be in [0, ${max}], got "${raw}"`);
+  return value;
+};
+
+const parsePopulation = (values: Record<string, string | boolean | undefined>): PopulationConfig => {
+  const numClients = parseInt(values.clients as string, 10);
+  if (!Number.isInteger(numClients) || numClients < 1) throw new Error(`--clients must be a positive integer, got "${values.clients}"`);
+  const attackerPlacement = values.placement as AttackerPlacement;
+  if (!(attackerPlacement in ATTACKER_PLACEMENT_LABELS)) throw new Error(`Unknown attacker placement "${values.placement}"`);
+  const window = values['attack-window'] as string;
+  const match = /^(\d+):(\d*)$/.exec(window);
+  if (!match) throw new Error(`--attack-window expects <start>:<end> (end optional), got "${window}"`);
+  const participation = parseFraction('participation', values.participation as string);
+  if (participation === 0) throw new Error('--participation must be greater than 0');
+  return {
+    numClients,
+    maliciousRatio: parseFraction('malicious-ratio', values['malicious-ratio'] as string),
+    attackerPlacement,
+    participation,
+    dropoutRate: parseFraction('dropout', values.dropout as string),
+    stragglerRate: parseFraction('stragglers', values.stragglers as string),
+    churnRate: parseFraction('churn', values.churn as string),
+    attackStart: parseInt(match[1], 10),
+    attackEnd: match[2] ? parseInt(match[2], 10) : 0
+  };
+};
+
+const summarizeRound = (state: SimulationState) => ({
+  accepted: state.clients.filter(c => c.isAccepted).length,
+  ...state.history[state.history.length - 1].detection
+});
+
+const toCSV = <Row extends object>(rows: Row[]): string => {
+  if (rows.length === 0) return '';
+  const columns = Object.keys(rows[0]) as (keyof Row)[];
+  const lines = rows.map(row => columns.map(col => {
+    const v = row[col];
+    return typeof v === 'number' ? String(Number(v.toFixed(6))) : v;
+  }).join(','));
+  return [columns.join(','), ...lines].join('\n') + '\n';
+};
+
+// A dump directory is read recursively, with paths relative to it; a JSON dump is one file
+const readDump = (target: string): GradientDump => {
+  const root = path.resolve(target);
+  if (!statSync(root).isDirectory()) {
+    return parseGradientDump(path.basename(root, '.json'), [{ path: path.basename(root), bytes: readFileSync(root) }]);
+  }
+  const walk = (dir: string): DumpFile[] => readdirSync(path.join(root, dir), { withFileTypes: true }).flatMap(entry => {
+    const relative = dir ? `${dir}/${entry.name}` : entry.name;
+    return entry.isDirectory() ? walk(relative) : [{ path: relative, bytes: readFileSync(path.join(root, relative)) }];
+  });
+  return parseGradientDump(path.basename(root), walk(''));
+};
+
+// Means over the seeds and paired tests against the first configuration (seed k pairs with seed k)
+const statsRows = (groups: ConfigGroup[]): StatsRow[] =>
+  groups.flatMap((group, g) => REPEAT_METRICS.map(metric => {
+    const values = group.finals.map(f => f[metric]);
+    const { n, mean, sd, low, high } = meanCI(values);
+    const test = g === 0 ? undefined : pairedTest(groups[0].finals.map(f => f[metric]), values);
+    return {
+      ...group.columns,
+      metric,
+      n,
+      mean,
+      sd,
+      ciLow: low,
+      ciHigh: high,
+      diff: test?.meanDiff ?? '',
+      diffLow: test?.low ?? '',
+      diffHigh: test?.high ?? '',
+      t: test?.t ?? '',
+      p: test?.p ?? '',
+      wilcoxonP: test?.wilcoxonP ?? ''
+    };
+  }));
+
+// Scenario named by --scenario / --preset, if any
+const loadScenario = (file?: string, presetName?: string): Scenario | undefined => {
+  if (file !== undefined && presetName !== undefined) throw new Error('--scenario and --preset cannot be combined');
+  if (presetName !== undefined) {
+    const preset = PRESETS[presetName];
+    if (!preset) throw new Error(`Unknown preset "${presetName}" (expected ${Object.keys(PRESETS).join(', ')})`);
+    return preset;
+  }
+  return file === undefined ? undefined : scenarioFromJSON(readFileSync(path.resolve(file), 'utf8'));
+};
+
+// Option defaults: the documented ones, or the scenario's settings when one is given
+const optionDefaults = (base: SimulationConfig, scenario?: Scenario): Record<string, string> => ({
+  rounds: String(scenario?.rounds || 100),
+  partition: base.partition.scheme,
+  attacks: base.attack.kind,
+  defenses: scenario ? defenseLabel(base) : 'all',
+  aggregators: base.aggregator.rule,
+  threshold: base.detection.thresholdMethod,
+  model: base.model.architecture,
+  'hidden-units': String(base.model.hiddenUnits),
+  'conv-filters': String(base.model.convFilters),
+  clients: String(base.population.numClients),
+  'malicious-ratio': String(base.population.maliciousRatio),
+  placement: base.population.attackerPlacement,
+  participation: String(base.population.participation),
+  dropout: String(base.population.dropoutRate),
+  stragglers: String(base.population.stragglerRate),
+  churn: String(base.population.churnRate),
+  'attack-window': `${base.population.attackStart}:${base.population.attackEnd || ''}`,
+  'fim-decay': String(base.fimDecay),
+  'fim-refresh': String(base.fimRefreshInterval),
+  reputation: Object.entries(REPUTATION_MODES).find(([, m]) =>
+    m.downweight === base.reputation.downweight && m.ban === base.reputation.ban)![0],
+  'ban-after': String(base.reputation.banAfter),
+  target: base.target.mode,
+  'target-indices': base.target.indices,
+  'target-layer': String(base.target.layer),
+  'target-fraction': String(base.target.fraction),
+  'target-move': String(base.target.moveEvery),
+  dp: privacyLabel(base.privacy),
+  'clip-norm': String(base.privacy.clipNorm),
+  epsilon: String(base.privacy.epsilon),
+  delta: String(base.privacy.delta),
+  'dp-rounds': String(base.privacy.rounds),
+  recovery: base.recovery.mode,
+  'recovery-window': String(base.recovery.window),
+  'fim-drift': String(base.recovery.fimDrift),
+  'stiffness-rise': String(base.recovery.stiffnessRise),
+  'asr-spike': String(base.recovery.asrSpike),
+  rewind: String(base.recovery.rewind),
+  backoff: String(base.recovery.backoff),
+  'unlearn-after': String(base.recovery.unlearnAfter),
+  repeats: '1',
+  ...(scenario ? { seed: String(scenario.seed) } : {})
+});
+
+const main = () => {
+  const { values: parsed } = parseArgs({
+    options: {
+      scenario: { type: 'string' },
+      preset: { type: 'string' },
+      import: { type: 'string' },
+      rounds: { type: 'string' },
+      partition: { type: 'string' },
+      'partition-param': { type: 'string' },
+      attacks: { type: 'string' },
+      defenses: { type: 'string' },
+      aggregators: { type: 'string' },
+      threshold: { type: 'string' },
+      model: { type: 'string' },
+      'hidden-units': { type: 'string' },
+      'conv-filters': { type: 'string' },
+      clients: { type: 'string' },
+      'malicious-ratio': { type: 'string' },
+      placement: { type: 'string' },
+      participation: { type: 'string' },
+      dropout: { type: 'string' },
+      stragglers: { type: 'string' },
+      churn: { type: 'string' },
+      'attack-window': { type: 'string' },
+      'fim-decay': { type: 'string' },
+      'fim-refresh': { type: 'string' },
+      reputation: { type: 'string' },
+      'ban-after': { type: 'string' },
+      target: { type: 'string' },
+      'target-indices': { type: 'string' },
+      'target-layer': { type: 'string' },
+      'target-fraction': { type: 'string' },
+      'target-move': { type: 'string' },
+      dp: { type: 'string' },
+      'clip-norm': { type: 'string' },
+      epsilon: { type: 'string' },
+      delta: { type: 'string' },
+      'dp-rounds': { type: 'string' },
+      recovery: { type: 'string' },
+      'recovery-window': { type: 'string' },
+      'fim-drift': { type: 'string' },
+      'stiffness-rise': { type: 'string' },
+      'asr-spike': { type: 'string' },
+      rewind: { type: 'string' },
+      backoff: { type: 'string' },
+      'unlearn-after': { type: 'string' },
+      seed: { type: 'string' },
+      repeats: { type: 'string' },
+      format: { type: 'string', default: 'csv,json' },
+      out: { type: 'string', default: 'results/batch' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (parsed.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Flags given on the command line override the scenario
+  const scenario = loadScenario(parsed.scenario, parsed.preset);
+  const base = scenario?.config ?? DEFAULT_CONFIG;
+  const given = Object.fromEntries(Object.entries(parsed).filter(([, v]) => v !== undefined));
+  const values = { ...optionDefaults(base, scenario), ...given } as typeof parsed;
+  if (scenario) console.log(`Scenario: ${scenario.name}`);
+  const dump = values.import !== undefined ? readDump(values.import) : undefined;
+  if (dump) console.log(`Import: ${dump.name} (${dump.rounds.length} rounds, ${dump.spec.dim} parameters${dump.labelled ? '' : ', unlabelled'})`);
+
+  const rounds = dump && given.rounds === undefined ? dump.rounds.length : parseInt(values.rounds!, 10);
+  if (!Number.isInteger(rounds) || rounds < 1) throw new Error(`--rounds must be a positive integer, got "${values.rounds}"`);
+  if (dump && rounds > dump.rounds.length) throw new Error(`--rounds ${rounds} exceeds the ${dump.rounds.length} rounds of the dump`);
+  const scheme = values.partition as PartitionScheme;
+  if (!(scheme in PARTITION_LABELS)) throw new Error(`Unknown partition scheme "${values.partition}"`);
+  const partitionParam = PARTITION_PARAM[scheme];
+  const basePartition = { ...base.partition, scheme };
+  // Schemes without a parameter (and replays, which have no simulated data) run once whatever --partition-param says
+  const partitionValues: (number | '')[] = !partitionParam || dump ? ['']
+    : values['partition-param'] !== undefined ? parseNumberList('partition-param', values['partition-param'])
+    : [basePartition[partitionParam.key]];
+  const requestedAttacks = values.attacks!.split(',').map(s => s.trim()).filter(Boolean) as AttackKind[];
+  const unknownAttack = requestedAttacks.find(kind => !(kind in ATTACK_LABELS));
+  if (unknownAttack || requestedAttacks.length === 0) throw new Error(`Unknown attack "${unknownAttack ?? ''}"`);
+  const attacks = dump ? [base.attack.kind] : requestedAttacks; // A replay's updates are already attacked (or not)
+  const defenseGrid = parseDefenses(values.defenses!);
+  const aggregators = values.aggregators!.split(',').map(s => s.trim()).filter(Boolean) as AggregatorRule[];
+  const unknownRule = aggregators.find(rule => !(rule in AGGREGATOR_LABELS));
+  if (unknownRule || aggregators.length === 0) throw new Error(`Unknown aggregator "${unknownRule ?? ''}"`);
+  const thresholdMethod = values.threshold as ThresholdMethod;
+  if (!(thresholdMethod in THRESHOLD_LABELS)) throw new Error(`Unknown threshold method "${values.threshold}"`);
+  const architecture = values.model as ArchitectureKind;
+  if (!(architecture in ARCHITECTURE_LABELS)) throw new Error(`Unknown model architecture "${values.model}"`);
+  const hiddenUnits = parseInt(values['hidden-units']!, 10);
+  if (!Number.isInteger(hiddenUnits) || hiddenUnits < 1) throw new Error(`--hidden-units must be a positive integer, got "${values['hidden-units']}"`);
+  const convFilters = parseInt(values['conv-filters']!, 10);
+  if (!Number.isInteger(convFilters) || convFilters < 1) throw new Error(`--conv-filters must be a positive integer, got "${values['conv-filters']}"`);
+  const model: ModelConfig = { architecture, hiddenUnits, convFilters };
+  // Semicolons separate indices on the command line, where commas separate target modes
+  const targetIndices = values['target-indices']!.split(';').join(',');
+  parseIndexList(targetIndices, (dump?.spec ?? buildModelSpec(model)).dim);
+  const targetLayer = parseInt(values['target-layer']!, 10);
+  if (!Number.isInteger(targetLayer) || targetLayer < 0) throw new Error(`--target-layer must be a non-negative integer, got "${values['target-layer']}"`);
+  const targetFraction = Number(values['target-fraction']);
+  if (!(targetFraction > 0 && targetFraction <= 1)) throw new Error(`--target-fraction must be in (0, 1], got "${values['target-fraction']}"`);
+  const targetMove = parseInt(values['target-move']!, 10);
+  if (!Number.isInteger(targetMove) || targetMove < 0) throw new Error(`--target-move must be a non-negative integer, got "${values['target-move']}"`);
+  const requestedTargets = parseTargets(values.target!, { indices: targetIndices, layer: targetLayer, fraction: targetFraction, moveEvery: targetMove, mode: base.target.mode });
+  if (requestedTargets.length === 0) throw new Error('--target expects at least one mode');
+  const targets = dump ? [base.target] : requestedTargets;
+  const population = parsePopulation(values);
+  const fimDecay = Number(values['fim-decay']);
+  if (!(fimDecay >= 0 && fimDecay < 1)) throw new Error(`--fim-decay must be in [0, 1), got "${values['fim-decay']}"`);
+  const fimRefreshInterval = parseInt(values['fim-refresh']!, 10);
+  if (!Number.isInteger(fimRefreshInterval) || fimRefreshInterval < 1) throw new Error(`--fim-refresh must be a positive integer, got "${values['fim-refresh']}"`);
+  const reputationMode = REPUTATION_MODES[values.reputation!];
+  if (!reputationMode) throw new Error(`Unknown reputation mode "${values.reputation}" (expected ${Object.keys(REPUTATION_MODES).join(', ')})`);
+  const banAfter = parseInt(values['ban-after']!, 10);
+  if (!Number.isInteger(banAfter) || banAfter < 1) throw new Error(`--ban-after must be a positive integer, got "${values['ban-after']}"`);
+  const reputation = { ...base.reputation, ...reputationMode, banAfter };
+  const clipNorm = Number(values['clip-norm']);
+  if (!(clipNorm > 0)) throw new Error(`--clip-norm must be positive, got "${values['clip-norm']}"`);
+  const epsilon = Number(values.epsilon);
+  if (!(epsilon > 0)) throw new Error(`--epsilon must be positive, got "${values.epsilon}"`);
+  const delta = Number(values.delta);
+  if (!(delta > 0 && delta < 1)) throw new Error(`--delta must be in (0, 1), got "${values.delta}"`);
+  const dpRounds = parseInt(values['dp-rounds']!, 10);
+  if (!Number.isInteger(dpRounds) || dpRounds < 1) throw new Error(`--dp-rounds must be a positive integer, got "${values['dp-rounds']}"`);
+  const privacyGrid = parsePrivacy(values.dp!, { ...base.privacy, clipNorm, epsilon, delta, rounds: dpRounds });
+  if (privacyGrid.length === 0) throw new Error('--dp expects at least one mode');
+  const recoveryWindow = parseInt(values['recovery-window']!, 10);
+  if (!Number.isInteger(recoveryWindow) || recoveryWindow < 2) throw new Error(`--recovery-window must be an integer of at least 2, got "${values['recovery-window']}"`);
+  const nonNegative = (name: 'fim-drift' | 'stiffness-rise' | 'asr-spike' | 'unlearn-after') => {
+    const value = Number(values[name]);
+    if (!(value >= 0)) throw new Error(`--${name} must be a non-negative number, got "${values[name]}"`);
+    return value;
+  };
+  const rewind = parseInt(values.rewind!, 10);
+  if (!Number.isInteger(rewind) || rewind < 1) throw new Error(`--rewind must be a positive integer, got "${values.rewind}"`);
+  const backoff = parseInt(values.backoff!, 10);
+  if (!Number.isInteger(backoff) || backoff < 0) throw new Error(`--backoff must be a non-negative integer, got "${values.backoff}"`);
+  const recoveryGrid = parseRecovery(values.recovery!, {
+    ...base.recovery,
+    window: recoveryWindow,
+    fimDrift: nonNegative('fim-drift'),
+    stiffnessRise: nonNegative('stiffness-rise'),
+    asrSpike: nonNegative('asr-spike'),
+    rewind,
+    backoff,
+    unlearnAfter: nonNegative('unlearn-after')
+  });
+  if (recoveryGrid.length === 0) throw new Error('--recovery expects at least one mode');
+  const recoveries = dump ? [{ ...base.recovery, mode: 'off' as const }] : recoveryGrid; // Replays run without recovery (replay.ts)
+  // Both act on the server side, so they are swept together
+  const serverGrid = privacyGrid.flatMap(privacy => recoveries.map(recovery => ({ privacy, recovery })));
+  const seed = values.seed !== undefined ? Number(values.seed) : randomSeed();
+  if (!Number.isInteger(seed) || seed < 0) throw new Error(`--seed must be a non-negative integer, got "${values.seed}"`);
+  const repeats = parseInt(values.repeats!, 10);
+  if (!Number.isInteger(repeats) || repeats < 1) throw new Error(`--repeats must be a positive integer, got "${values.repeats}"`);
+  const seeds = repeatSeeds(seed, repeats);
+  const formats = values.format!.split(',').map(s => s.trim());
+  if (formats.some(f => f !== 'csv' && f !== 'json')) throw new Error(`--format expects csv and/or json, got "${values.format}"`);
+
+  console.log(repeats > 1 ? `Seeds: ${seeds[0]}..${seeds[seeds.length - 1]}` : `Seed: ${seed}`);
+  const rows: RoundRow[] = [];
+  // Per configuration: its columns and every seed's final metrics, for the stats file
+  const groups: ConfigGroup[] = [];
+  let run = 0;
+  for (const defenses of defenseGrid) {
+    for (const rule of aggregators) {
+      for (const partitionValue of partitionValues) {
+        for (const kind of attacks) {
+          for (const target of targets) {
+            for (const { privacy, recovery } of serverGrid) {
+              const config: SimulationConfig = {
+                ...base,
+                ...defenses,
+                fimDecay,
+                fimRefreshInterval,
+                reputation,
+                detection: { ...base.detection, thresholdMethod },
+                model,
+                population,
+                partition: partitionValue === '' ? basePartition : withPartitionParam(basePartition, partitionValue),
+                attack: { ...base.attack, kind },
+                target,
+                aggregator: { ...base.aggregator, rule },
+                privacy,
+                recovery
+              };
+              const columns = {
+                defenses: defenseLabel(defenses),
+                aggregator: rule,
+                partition: dump ? 'imported' as const : scheme,
+                partitionParam: partitionValue,
+                attack: dump ? 'imported' as const : kind,
+                target: dump ? 'imported' : targetLabel(target),
+                dp: privacyLabel(privacy),
+                recovery: recoveryLabel(recovery)
+              };
+              const group: ConfigGroup = { columns, finals: [] };
+              groups.push(group);
+              for (const runSeed of seeds) {
+                let state = dump ? createReplayState(runSeed, config, dump) : createInitialState(runSeed, config);
+                const log = createRunLog();
+                for (let r = 0; r < rounds; r++) {
+                  state = dump ? replayRound(config, state, dump) : runRound(config, state);
+                  appendRound(log, state);
+                  rows.push({
+                    run,
+                    seed: runSeed,
+                    ...columns,
+                    round: state.round,
+                    acc: state.globalAccuracy,
+                    asr: state.backdoorSuccessRate,
+                    participants: state.clients.length,
+                    ...summarizeRound(state),
+                    epsilon: state.privacy.epsilon,
+                    recoveryEvent: state.history[state.history.length - 1].recovery?.kind ?? '',
+                    roundsLost: state.history[state.history.length - 1].recovery?.roundsLost ?? 0
+                  });
+                }
+                group.finals.push(finalMetrics(log));
+                const setting = dump ? `import=${dump.name}` : `${scheme}${partitionValue === '' ? '' : `=${partitionValue}`} attack=${kind} target=${columns.target}`;
+                console.log(`[run ${run}] ${columns.defenses} ${rule} ${setting} dp=${columns.dp} recovery=${columns.recovery}${repeats > 1 ? ` seed=${runSeed}` : ''}: ` +
+                  `acc=${state.globalAccuracy.toFixed(3)} asr=${state.backdoorSuccessRate.toFixed(3)}` +
+                  (state.recovery.events.length > 0 ? ` recoveries=${state.recovery.events.length} lost=${state.recovery.roundsLost}` : ''));
+                run++;
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  const out = path.resolve(values.out!);
+  mkdirSync(path.dirname(out), { recursive: true });
+  if (formats.includes('csv')) {
+    writeFileSync(`${out}.csv`, toCSV(rows));
+    console.log(`Wrote ${rows.length} rows to ${out}.csv`);
+  }
+  if (formats.includes('json')) {
+    writeFileSync(`${out}.json`, JSON.stringify(rows, null, 2));
+    console.log(`Wrote ${rows.length} rows to ${out}.json`);
+  }
+  if (repeats === 1) return;
+
+  const stats = statsRows(groups);
+  groups.forEach((group, g) => {
+    const cell = (metric: RepeatMetric) => {
+      const row = stats[g * REPEAT_METRICS.length + REPEAT_METRICS.indexOf(metric)];
+      return `${metric}=${row.mean.toFixed(3)} [${row.ciLow.toFixed(3)}, ${row.ciHigh.toFixed(3)}]${row.p === '' ? '' : ` p=${row.p.toFixed(4)}`}`;
+    };
+    const { defenses, aggregator, partition, partitionParam, attack, target, dp, recovery } = group.columns;
+    console.log(`[config ${g}] ${defenses} ${aggregator} ${partition}${partitionParam === '' ? '' : `=${partitionParam}`} attack=${attack} target=${target} dp=${dp} recovery=${recovery}: ` +
+      REPEAT_METRICS.map(cell).join(' '));
+  });
+  if (formats.includes('csv')) {
+    writeFileSync(`${out}.stats.csv`, toCSV(stats));
+    console.log(`Wrote ${stats.length} rows to ${out}.stats.csv`);
+  }
+  if (formats.includes('json')) {
+    writeFileSync(`${out}.stats.json`, JSON.stringify(stats, null, 2));
+    console.log(`Wrote ${stats.length} rows to ${out}.stats.json`);
+  }
+};
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  console.error(USAGE);
+  process.exit(1);
+}
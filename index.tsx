@@ -11,11 +11,34 @@ import {
   Play, 
   RotateCcw,
   Settings,
-  Database
+  Database,
+  Dices,
+  Layers,
+  SlidersHorizontal,
+  Crosshair,
+  FileJson,
+  GitCompare,
+  Download,
+  Upload,
+  Link,
+  UserCheck,
+  History,
+  StepBack,
+  StepForward,
+  SkipForward,
+  GitFork,
+  Microscope,
+  X,
+  Lock,
+  FolderOpen,
+  Sigma,
+  Undo2
 } from 'lucide-react';
 import {
   LineChart,
   Line,
+  ComposedChart,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -24,236 +47,254 @@ import {
   ResponsiveContainer,
   ScatterChart,
   Scatter,
-  ZAxis
+  ZAxis,
+  BarChart,
+  Bar,
+  Cell,
+  ReferenceLine
 } from 'recharts';
 
-// --- Types & Constants ---
-
-type ClientType = 'benign' | 'malicious';
-
-interface Client {
-  id: number;
-  type: ClientType;
-  gradient: number[]; // Simplified high-dim vector
-  dataDistribution: number; // For Non-IID simulation (0-1)
-  stiffnessViolationScore: number;
-  isAccepted: boolean;
-}
-
-interface SimulationState {
-  round: number;
-  globalAccuracy: number;
-  backdoorSuccessRate: number;
-  globalFIM: number[]; // Momentum FIM
-  clients: Client[];
-  history: { round: number; acc: number; asr: number }[];
-}
-
-const VECTOR_DIM = 20; // Simulated parameter dimension
-const NUM_CLIENTS = 20;
-const MALICIOUS_RATIO = 0.2;
-
-// --- Helper Math Functions ---
-
-const randomNormal = () => {
-  let u = 0, v = 0;
-  while(u === 0) u = Math.random(); 
-  while(v === 0) v = Math.random();
-  return Math.sqrt( -2.0 * Math.log( u ) ) * Math.cos( 2.0 * Math.PI * v );
-};
+import { SimulationConfig, NUM_CLASSES } from './simulation/types';
+import { DEFAULT_CONFIG } from './simulation/config';
+import { AggregatorConfig, AggregatorRule, AGGREGATOR_LABELS } from './simulation/aggregators';
+import { AttackConfig, AttackKind, ATTACK_LABELS, ATTACK_PARAMS } from './simulation/attacks';
+import { DetectionConfig, ThresholdMethod, Linkage, LayerWeighting, THRESHOLD_LABELS, LAYER_WEIGHTING_LABELS } from './simulation/detection';
+import { createInitialState } from './simulation/engine';
+import { randomSeed } from './simulation/math';
+import { ArchitectureKind, ARCHITECTURE_LABELS, ModelConfig, ModelSpec } from './simulation/model';
+import { SweepScore, detectionMetrics } from './simulation/metrics';
+import { RunPoint } from './simulation/runlog';
+import { Projection, ProjectionMethod, PROJECTION_LABELS, convexHull } from './simulation/projection';
+import { AttackerPlacement, ATTACKER_PLACEMENT_LABELS, POPULATION_PARAMS, PopulationConfig } from './simulation/population';
+import { PartitionConfig, PartitionScheme, PARTITION_LABELS, PARTITION_PARAM, clientPartition } from './simulation/partition';
+import { BACKDOOR_TARGET } from './simulation/dataset';
+import { ReputationConfig, REPUTATION_PARAMS } from './simulation/reputation';
+import { PrivacyConfig, PrivacyMode, PrivacyPlacement, PRIVACY_MODE_LABELS, PRIVACY_PLACEMENT_LABELS, PRIVACY_PARAMS, DELTA_EXPONENTS, noiseMultiplier } from './simulation/privacy';
+import { DefenseToggles, ALL_DEFENSE_COMBINATIONS, defenseLabel, overlaySeries } from './simulation/ablation';
+import { StateSummary, AblationRunSummary, SweepSummary, FIMSummary, TimelineSummary, WorkerRequest, WorkerResponse, DEFAULT_PROJECTION_VIEW, STIFFNESS_QUANTILES, summarizeState } from './simulation/summary';
+import { TimelineConfig, DEFAULT_TIMELINE } from './simulation/timeline';
+import { ClientForensics, CHECK_LABELS } from './simulation/forensics';
+import { ReplaySummary } from './simulation/replay';
+import { TargetConfig, TargetMode, TARGET_MODE_LABELS, TARGET_PARAMS, parseIndexList } from './simulation/targets';
+import { RecoveryConfig, RecoveryMode, RECOVERY_MODE_LABELS, RECOVERY_PARAMS } from './simulation/recovery';
+import { RepeatMetric, RepeatSummary, REPEAT_METRICS, MAX_REPEAT_SEEDS } from './simulation/repeat';
+import { Scenario, SCENARIO_VERSION, PRESETS, scenarioFromJSON, scenarioToJSON, encodeScenario, decodeScenario } from './simulation/scenario';
 
-// Simulate generating a gradient based on client type and data distribution
-const generateGradient = (
-  type: ClientType, 
-  distribution: number, 
-  nonIIDLevel: number, 
-  attackStrength: number,
-  globalModelDirection: number[]
-): number[] => {
-  return Array.from({ length: VECTOR_DIM }, (_, i) => {
-    // Base direction (Ground Truth)
-    let val = globalModelDirection[i];
-    
-    // Add Non-IID noise
-    // If Non-IID is high, the gradient deviates significantly based on 'distribution'
-    const noise = randomNormal() * nonIIDLevel * 2;
-    const bias = Math.sin(distribution * Math.PI * 2 + i) * nonIIDLevel;
-    val += noise + bias;
-
-    // Malicious modification (Backdoor injection)
-    // Attackers try to pull specific parameters (e.g., indices 0-4) strongly in reverse
-    if (type === 'malicious') {
-      if (i < 5) { // Target specific "trigger" parameters
-        val -= attackStrength * 5; 
-      } else {
-        // Stealth: try to mimic benign distribution on other params
-        val += randomNormal() * 0.5;
-      }
-    }
+// --- Main Application ---
 
-    return val;
-  });
+// A shared link carries its scenario in the hash: #scenario=<encoded>
+const SCENARIO_HASH_KEY = 'scenario';
+
+const readScenarioFromUrl = (): { scenario?: Scenario; error?: string } => {
+  const encoded = new URLSearchParams(window.location.hash.slice(1)).get(SCENARIO_HASH_KEY);
+  if (!encoded) return {};
+  try {
+    return { scenario: decodeScenario(encoded) };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
 };
 
-// Calculate dot product
-const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+const linkedScenario = readScenarioFromUrl();
+const initialConfig = linkedScenario.scenario?.config ?? DEFAULT_CONFIG;
 
-// Calculate magnitude
-const mag = (a: number[]) => Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
+// Scatter colors by cluster label: majority first, then the rejected clusters (extra ones share the last color)
+const CLUSTER_COLORS = ['#22d3ee', '#f472b6', '#a78bfa', '#fb923c', '#facc15'];
 
-// --- Main Application ---
+// Label histogram colors, one per class
+const CLASS_COLORS = ['#f87171', '#60a5fa', '#4ade80', '#facc15'];
+
+// Reputation panel: at most this many client trajectories are drawn (lowest reputation first)
+const MAX_REPUTATION_LINES = 40;
+
+// MLP width slider: powers of two from 4 to 65536 hidden units (~1.4M parameters)
+const MIN_HIDDEN_EXPONENT = 2;
+const MAX_HIDDEN_EXPONENT = 16;
+
+// Ablation overlay colors, one per defense combination (ALL_DEFENSE_COMBINATIONS order)
+const ABLATION_COLORS = ['#94a3b8', '#60a5fa', '#f472b6', '#a78bfa', '#4ade80', '#22d3ee', '#facc15', '#f87171'];
 
 const App = () => {
   // --- Simulation Config State ---
   const [isPlaying, setIsPlaying] = useState(false);
-  const [simSpeed, setSimSpeed] = useState(500);
+  const [simSpeed, setSimSpeed] = useState(linkedScenario.scenario?.simSpeed ?? 500);
   
   // Defense Toggles
-  const [useMomentumFIM, setUseMomentumFIM] = useState(true);
-  const [useStiffnessMask, setUseStiffnessMask] = useState(true);
-  const [useLayerWeightedClustering, setUseLayerWeightedClustering] = useState(true);
+  const [useMomentumFIM, setUseMomentumFIM] = useState(initialConfig.useMomentumFIM);
+  const [useStiffnessMask, setUseStiffnessMask] = useState(initialConfig.useStiffnessMask);
+  const [useLayerWeightedClustering, setUseLayerWeightedClustering] = useState(initialConfig.useLayerWeightedClustering);
+
+  // Momentum FIM Estimation
+  const [fimDecay, setFimDecay] = useState(initialConfig.fimDecay);
+  const [fimRefreshInterval, setFimRefreshInterval] = useState(initialConfig.fimRefreshInterval);
+
+  // Detection Thresholds
+  const [detection, setDetection] = useState<DetectionConfig>(initialConfig.detection);
 
   // Environment Config
-  const [nonIIDLevel, setNonIIDLevel] = useState(0.5); // 0 = IID, 1 = Highly Non-IID
-  const [attackStealth, setAttackStealth] = useState(0.6); // 1 = Very Stealthy (Low magnitude)
+  const [partition, setPartition] = useState<PartitionConfig>(initialConfig.partition); // Non-IID data partition
+
+  // Attack Config
+  const [attack, setAttack] = useState<AttackConfig>(initialConfig.attack);
+
+  // Parameters the attackers confine their updates to; the index set is edited as text and
+  // only applied once it parses
+  const [target, setTarget] = useState<TargetConfig>(initialConfig.target);
+  const [targetIndicesText, setTargetIndicesText] = useState(initialConfig.target.indices);
+
+  // Server Aggregation
+  const [aggregator, setAggregator] = useState<AggregatorConfig>(initialConfig.aggregator);
+
+  // Client Reputation
+  const [reputation, setReputation] = useState<ReputationConfig>(initialConfig.reputation);
+
+  // Differential Privacy
+  const [privacy, setPrivacy] = useState<PrivacyConfig>(initialConfig.privacy);
+
+  // Global Model Recovery
+  const [recovery, setRecovery] = useState<RecoveryConfig>(initialConfig.recovery);
+
+  // Reproducibility: the next run starts from this seed
+  const [seed, setSeed] = useState(() => linkedScenario.scenario?.seed ?? randomSeed());
+
+  // Model architecture of the next run
+  const [model, setModel] = useState<ModelConfig>(initialConfig.model);
+
+  // Client Population (size, attacker share and placement apply to the next run)
+  const [population, setPopulation] = useState<PopulationConfig>(initialConfig.population);
+
+  // Scenario bookkeeping: name shown/exported, and the round the run stops at (0 = until paused)
+  const [scenarioName, setScenarioName] = useState(linkedScenario.scenario?.name ?? 'Custom');
+  const [roundLimit, setRoundLimit] = useState(linkedScenario.scenario?.rounds ?? 0);
+  const [scenarioMessage, setScenarioMessage] = useState<{ text: string; error: boolean } | null>(
+    linkedScenario.error ? { text: linkedScenario.error, error: true } : null
+  );
+  const importInput = useRef<HTMLInputElement>(null);
+  const dumpFolderInput = useRef<HTMLInputElement | null>(null); // Assigned in its ref callback, which also sets webkitdirectory
+  const dumpFileInput = useRef<HTMLInputElement>(null);
 
   // --- Simulation Runtime State ---
-  const [state, setState] = useState<SimulationState>({
-    round: 0,
-    globalAccuracy: 0.1,
-    backdoorSuccessRate: 0,
-    globalFIM: Array(VECTOR_DIM).fill(1), // Init FIM
-    clients: [],
-    history: []
-  });
+  // The runs live in the simulation worker; the UI holds the summaries it posts back.
+  // The first one is computed here so the dashboard renders before the worker has started.
+  const [state, setState] = useState<StateSummary>(() => summarizeState(createInitialState(seed, initialConfig)));
+  const [projection, setProjection] = useState<Projection>({ points: [] });
+
+  // Stored rounds of the single run: the panels show `timeline.viewing`, the run is at `timeline.last`
+  const [timeline, setTimeline] = useState<TimelineSummary>({ first: 0, last: 0, viewing: 0, bytes: 0 });
+  const [timelineConfig, setTimelineConfig] = useState<TimelineConfig>(DEFAULT_TIMELINE);
+  const isLive = timeline.viewing === timeline.last;
+
+  // Ablation view: the selected defense combinations run in lockstep instead of the single run
+  const [view, setView] = useState<'single' | 'ablation' | 'repeat'>('single');
+  const [ablationVariants, setAblationVariants] = useState<DefenseToggles[]>(ALL_DEFENSE_COMBINATIONS);
+  const [ablation, setAblation] = useState<AblationRunSummary[]>([]);
+  // Every round of every variant, by label: the worker posts only the latest, appended here in place
+  const ablationPoints = useRef<Record<string, RunPoint[]>>({});
+
+  // Repeat view: two defense combinations, each run over the same seeds, with CIs and paired tests
+  const [repeatVariants, setRepeatVariants] = useState<DefenseToggles[]>([ALL_DEFENSE_COMBINATIONS[0], ALL_DEFENSE_COMBINATIONS[7]]);
+  const [repeatSeedCount, setRepeatSeedCount] = useState(10);
+  const [repeat, setRepeat] = useState<RepeatSummary | null>(null);
+
+  // Threshold sweep view: which stored score is swept, shown as ROC or precision-recall
+  const [curveScore, setCurveScore] = useState<SweepScore>('stiffness');
+  const [sweep, setSweep] = useState<SweepSummary>({ points: [], auc: 0, ap: 0, rounds: 0 });
+  const [curveKind, setCurveKind] = useState<'roc' | 'pr'>('roc');
+
+  // Scatter view: projection of the round's updates and what is overlaid on it
+  const [projectionMethod, setProjectionMethod] = useState<ProjectionMethod>(DEFAULT_PROJECTION_VIEW.method);
+  const [projectionWeighted, setProjectionWeighted] = useState(DEFAULT_PROJECTION_VIEW.weighted);
+  const [colorByCluster, setColorByCluster] = useState(false);
+  const [showAcceptedRegion, setShowAcceptedRegion] = useState(true);
 
-  // Global Model Direction (Conceptually the "True" gradient direction)
-  const trueGradientRef = useRef<number[]>(Array.from({ length: VECTOR_DIM }, () => randomNormal()));
+  // Forensics panel: the client clicked in the scatter, explained for the viewed round
+  const [inspectedClient, setInspectedClient] = useState<number | null>(null);
+  const [forensics, setForensics] = useState<ClientForensics | null>(null);
+
+  // Imported gradient dump the single run replays (null = simulated clients)
+  const [replay, setReplay] = useState<ReplaySummary | null>(null);
 
   // --- Core Simulation Engine ---
 
-  const runRound = () => {
-    setState(prev => {
-      const newRound = prev.round + 1;
-      
-      // 1. Generate Clients & Gradients
-      const newClients: Client[] = Array.from({ length: NUM_CLIENTS }, (_, i) => {
-        const type: ClientType = i < NUM_CLIENTS * MALICIOUS_RATIO ? 'malicious' : 'benign';
-        const distribution = type === 'malicious' ? 0.9 : (i / NUM_CLIENTS); // Attackers often collude on similar data
-        
-        // Attack strength is inverse to stealth
-        const strength = (1.5 - attackStealth); 
-        
-        return {
-          id: i,
-          type,
-          dataDistribution: distribution,
-          gradient: generateGradient(type, distribution, nonIIDLevel, strength, trueGradientRef.current),
-          stiffnessViolationScore: 0,
-          isAccepted: true // Default accept
-        };
-      });
-
-      // 2. Defense Logic: FIM-Based Detection
-      
-      // Update Momentum FIM (Simulated)
-      // In reality, we'd compute this from accepted gradients. Here we simulate the concept:
-      // FIM is high for first 5 parameters (sensitive features) and random for others.
-      // This represents "History" knowing which params are important.
-      let currentFIM = prev.globalFIM;
-      if (useMomentumFIM) {
-        // Simulation: The "True" model relies heavily on indices 0-4. FIM should reflect this.
-        const idealFIM = Array.from({length: VECTOR_DIM}, (_, i) => i < 5 ? 10.0 : 1.0);
-        // EMA Update: F_new = 0.9 * F_old + 0.1 * F_current
-        currentFIM = currentFIM.map((f, i) => 0.9 * f + 0.1 * idealFIM[i]);
+  const buildConfig = (overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+    useMomentumFIM,
+    useStiffnessMask,
+    useLayerWeightedClustering,
+    fimDecay,
+    fimRefreshInterval,
+    detection,
+    model,
+    population,
+    partition,
+    attack,
+    target,
+    aggregator,
+    reputation,
+    privacy,
+    recovery,
+    ...overrides
+  });
+
+  // --- Simulation Worker ---
+  const worker = useRef<Worker | null>(null);
+  const pendingRequests = useRef(0); // Posted requests the worker has not answered yet
+
+  const send = (request: WorkerRequest) => {
+    pendingRequests.current++;
+    worker.current?.postMessage(request);
+  };
+
+  useEffect(() => {
+    const w = new Worker(new URL('./simulation/worker.ts', import.meta.url), { type: 'module' });
+    w.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      pendingRequests.current = Math.max(0, pendingRequests.current - 1);
+      const response = event.data;
+      switch (response.type) {
+        case 'single':
+          setState(response.state);
+          setProjection(response.projection);
+          setSweep(response.sweep);
+          setTimeline(response.timeline);
+          setForensics(response.forensics);
+          setReplay(response.replay);
+          break;
+        case 'ablation':
+          response.runs.forEach(run => {
+            const points = ablationPoints.current[run.label] ?? [];
+            if (run.point === null) points.length = 0; // A fresh run
+            else if (run.point.round > (points[points.length - 1]?.round ?? 0)) points.push(run.point);
+            ablationPoints.current[run.label] = points;
+          });
+          setAblation(response.runs);
+          break;
+        case 'repeat':
+          setRepeat(response.summary);
+          break;
+        case 'error':
+          setIsPlaying(false);
+          setScenarioMessage({ text: response.message, error: true });
+          break;
       }
+    };
+    worker.current = w;
+    pendingRequests.current = 0;
+    send({ type: 'reset', target: 'single', seed, config: buildConfig() });
+    return () => {
+      w.terminate();
+      worker.current = null;
+    };
+  }, []);
 
-      // Calculate Scores & filter
-      const acceptedGradients: number[][] = [];
-      const processedClients = newClients.map(client => {
-        let isMaliciousDetected = false;
-        let stiffnessScore = 0;
-
-        // Mechanism A: Stiffness Conflict (The "Mask" logic)
-        if (useStiffnessMask) {
-          // Calculate weighted alignment on High-FIM parameters
-          // Score = Sum(FIM_i * |grad_i|) for params where grad direction is suspicious
-          // Simplified: If FIM is high, gradient magnitude should be consistent with benign history.
-          // Here, attackers modify indices 0-4 (High FIM).
-          
-          stiffnessScore = client.gradient.reduce((acc, val, idx) => {
-            const importance = currentFIM[idx];
-            // If importance is high, large changes are suspicious (Stiffness)
-            return acc + (importance * Math.abs(val));
-          }, 0);
-
-          // Normalization for threshold
-          stiffnessScore = stiffnessScore / VECTOR_DIM;
-          
-          // Dynamic Threshold based on benign cluster stats (simplified here)
-          const threshold = (useMomentumFIM ? 12 : 15) * (1 + nonIIDLevel); 
-          if (stiffnessScore > threshold) isMaliciousDetected = true;
-        }
-
-        // Mechanism B: Layer/FIM Weighted Clustering (Distance check)
-        if (useLayerWeightedClustering && !isMaliciousDetected) {
-           // Compute distance to "True" direction weighted by FIM
-           // This reduces the impact of Non-IID noise (usually in Low-FIM areas)
-           // and highlights Backdoor noise (in High-FIM areas)
-           let dist = 0;
-           for(let i=0; i<VECTOR_DIM; i++) {
-             const weight = useLayerWeightedClustering ? currentFIM[i] : 1;
-             const diff = client.gradient[i] - trueGradientRef.current[i];
-             dist += weight * (diff * diff);
-           }
-           // Simple outlier detection
-           if (dist > (500 * (1+nonIIDLevel))) isMaliciousDetected = true;
-        }
-
-        // Basic check for control group (without our defenses, simplistic clustering fails on Non-IID)
-        if (!useStiffnessMask && !useLayerWeightedClustering) {
-           // Simple Magnitude check (fails against stealth)
-           if (mag(client.gradient) > 25) isMaliciousDetected = true;
-        }
-
-        return { ...client, stiffnessViolationScore: stiffnessScore, isAccepted: !isMaliciousDetected };
-      });
-
-      // 3. Aggregation & Metrics
-      let acceptedCount = 0;
-      let maliciousAccepted = 0;
-      
-      processedClients.forEach(c => {
-        if (c.isAccepted) {
-          acceptedCount++;
-          if (c.type === 'malicious') maliciousAccepted++;
-        }
-      });
-
-      // Update Acc/ASR
-      // If malicious clients are accepted, ASR goes up, Acc goes down
-      const attackImpact = maliciousAccepted / (acceptedCount || 1);
-      
-      // New Acc moves towards 0.95 (max) - impact
-      const targetAcc = 0.95 - (attackImpact * 0.5);
-      const newAcc = prev.globalAccuracy * 0.8 + targetAcc * 0.2; // Smooth transition
-
-      // New ASR moves towards 1.0 if full malicious, 0 if none
-      const targetASR = attackImpact > 0.1 ? 0.9 : 0.0;
-      const newASR = prev.backdoorSuccessRate * 0.8 + targetASR * 0.2;
-
-      const newHistory = [...prev.history, { round: newRound, acc: newAcc, asr: newASR }].slice(-50);
-
-      return {
-        ...prev,
-        round: newRound,
-        clients: processedClients,
-        globalAccuracy: newAcc,
-        backdoorSuccessRate: newASR,
-        globalFIM: currentFIM,
-        history: newHistory
-      };
-    });
+  const resetSingle = (runSeed: number, config: SimulationConfig) => send({ type: 'reset', target: 'single', seed: runSeed, config });
+  const resetAblation = (runSeed: number, config: SimulationConfig, variants: DefenseToggles[]) =>
+    send({ type: 'reset', target: 'ablation', seed: runSeed, config, variants });
+  const resetRepeat = (runSeed: number, config: SimulationConfig, variants: DefenseToggles[], count = repeatSeedCount) =>
+    send({ type: 'reset', target: 'repeat', seed: runSeed, seeds: count, config, variants });
+
+  // Ticks that come while the worker is still busy are skipped, so slow rounds never queue up
+  const runRound = () => {
+    if (pendingRequests.current > 0) return;
+    send({ type: 'step', target: view, config: buildConfig(), roundLimit });
   };
 
   // --- Loop Effect ---
@@ -263,32 +304,271 @@ const App = () => {
       interval = window.setInterval(runRound, simSpeed);
     }
     return () => clearInterval(interval);
-  }, [isPlaying, simSpeed, useMomentumFIM, useStiffnessMask, useLayerWeightedClustering, nonIIDLevel, attackStealth]);
+  }, [isPlaying, simSpeed, useMomentumFIM, useStiffnessMask, useLayerWeightedClustering, fimDecay, fimRefreshInterval, detection, model, population, partition, attack, target, aggregator, reputation, privacy, recovery, roundLimit, view]);
+
+  // The scenario's round count reached: stop
+  const activeRound = view === 'ablation' ? ablation[0]?.state.round ?? 0 : view === 'repeat' ? repeat?.round ?? 0 : timeline.last;
+  useEffect(() => {
+    if (roundLimit > 0 && activeRound >= roundLimit) setIsPlaying(false);
+  }, [activeRound, roundLimit]);
+
+  // ...and so does a replay once every round of the dump has been served
+  useEffect(() => {
+    if (replay && view === 'single' && timeline.last >= replay.rounds) setIsPlaying(false);
+  }, [replay, view, timeline.last]);
 
   // --- Handlers ---
+  // Changing the seed before the first round restarts the pending run from it
+  const handleSeedChange = (next: number) => {
+    setSeed(next);
+    if (timeline.last === 0 && !replay) resetSingle(next, buildConfig());
+  };
+
+  // Same for the architecture: a running simulation keeps its model until reset
+  const handleModelChange = (next: ModelConfig) => {
+    setModel(next);
+    if (timeline.last === 0 && !replay) resetSingle(seed, buildConfig({ model: next }));
+  };
+
+  // ...and for the registered population (participation, dropouts etc. apply immediately)
+  const handlePopulationChange = (next: PopulationConfig) => {
+    setPopulation(next);
+    if (timeline.last === 0 && !replay) resetSingle(seed, buildConfig({ population: next }));
+  };
+
   const handleReset = () => {
     setIsPlaying(false);
-    setState({
-      round: 0,
-      globalAccuracy: 0.1,
-      backdoorSuccessRate: 0,
-      globalFIM: Array(VECTOR_DIM).fill(1),
-      clients: [],
-      history: []
-    });
+    resetSingle(seed, buildConfig());
+    resetAblation(seed, buildConfig(), ablationVariants);
+    resetRepeat(seed, buildConfig(), repeatVariants);
+  };
+
+  // One round, then pause
+  const handleStep = () => {
+    setIsPlaying(false);
+    runRound();
+  };
+
+  // --- Timeline ---
+  // Looking at a past round pauses the run; stepping or playing returns to the latest round
+  const handleSeek = (round: number | null) => {
+    setIsPlaying(false);
+    send({ type: 'seek', round });
+  };
+
+  // Continue from the viewed round with the current settings; the later rounds are discarded
+  const handleFork = () => {
+    send({ type: 'fork', round: timeline.viewing });
+    setScenarioMessage({ text: `Forked at round ${timeline.viewing} (从第 ${timeline.viewing} 轮分叉)`, error: false });
+  };
+
+  const handleTimelineConfigChange = (next: TimelineConfig) => {
+    setTimelineConfig(next);
+    send({ type: 'timeline', config: next });
+  };
+
+  // The worker keeps the panel's client and refreshes its forensics with every round it posts
+  const handleInspect = (clientId: number | null) => {
+    setInspectedClient(clientId);
+    send({ type: 'inspect', clientId });
+  };
+
+  // Entering the ablation or repeat view, or changing its variants, starts the comparison over
+  const handleViewChange = (next: 'single' | 'ablation' | 'repeat') => {
+    setIsPlaying(false);
+    setView(next);
+    if (next === 'ablation' && ablation.length === 0) resetAblation(seed, buildConfig(), ablationVariants);
+    if (next === 'repeat' && !repeat?.variants.length) resetRepeat(seed, buildConfig(), repeatVariants);
+  };
+
+  const handleRepeatChange = (variants: DefenseToggles[], count: number) => {
+    setRepeatVariants(variants);
+    setRepeatSeedCount(count);
+    resetRepeat(seed, buildConfig(), variants, count);
+  };
+
+  const handleAblationVariantsChange = (next: DefenseToggles[]) => {
+    setIsPlaying(false);
+    setAblationVariants(next);
+    resetAblation(seed, buildConfig(), next);
+  };
+
+  // --- Scenarios ---
+  const currentScenario = (): Scenario => ({
+    version: SCENARIO_VERSION,
+    name: scenarioName,
+    seed,
+    rounds: roundLimit,
+    simSpeed,
+    config: buildConfig()
+  });
+
+  // Replace every setting and start a fresh run from the scenario's seed
+  const applyScenario = (scenario: Scenario) => {
+    const { config } = scenario;
+    setIsPlaying(false);
+    setUseMomentumFIM(config.useMomentumFIM);
+    setUseStiffnessMask(config.useStiffnessMask);
+    setUseLayerWeightedClustering(config.useLayerWeightedClustering);
+    setFimDecay(config.fimDecay);
+    setFimRefreshInterval(config.fimRefreshInterval);
+    setDetection(config.detection);
+    setModel(config.model);
+    setPopulation(config.population);
+    setPartition(config.partition);
+    setAttack(config.attack);
+    setTarget(config.target);
+    setTargetIndicesText(config.target.indices);
+    setAggregator(config.aggregator);
+    setReputation(config.reputation);
+    setPrivacy(config.privacy);
+    setRecovery(config.recovery);
+    setSeed(scenario.seed);
+    setRoundLimit(scenario.rounds);
+    if (scenario.simSpeed !== undefined) setSimSpeed(scenario.simSpeed);
+    setScenarioName(scenario.name);
+    resetSingle(scenario.seed, config);
+    resetAblation(scenario.seed, config, view === 'ablation' ? ablationVariants : []);
+    resetRepeat(scenario.seed, config, view === 'repeat' ? repeatVariants : []);
+    setScenarioMessage({ text: `Loaded "${scenario.name}"`, error: false });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([scenarioToJSON(currentScenario())], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${scenarioName.replace(/[^\w-]+/g, '_') || 'scenario'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      applyScenario(scenarioFromJSON(await file.text()));
+    } catch (err) {
+      setScenarioMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
+  // A dump folder (or a single JSON dump) replaces the simulated clients of the single run.
+  // Paths are made relative to the chosen folder, which is what the worker's parser expects.
+  const handleImportDump = async (fileList: FileList) => {
+    const chosen = Array.from(fileList);
+    if (chosen.length === 0) return;
+    setIsPlaying(false);
+    const relative = (file: File) => (file.webkitRelativePath || file.name).split('/').slice(file.webkitRelativePath ? 1 : 0).join('/');
+    const files = await Promise.all(chosen.map(async file => ({ path: relative(file), bytes: new Uint8Array(await file.arrayBuffer()) })));
+    const name = chosen[0].webkitRelativePath ? chosen[0].webkitRelativePath.split('/')[0] : chosen[0].name.replace(/\.json$/i, '');
+    handleViewChange('single');
+    send({ type: 'import', seed, config: buildConfig(), name, files });
+    setScenarioMessage({ text: `Replaying ${name} (回放梯度转储)`, error: false });
+  };
+
+  // Put the scenario in the address bar and copy the link
+  const handleShare = async () => {
+    window.history.replaceState(null, '', `#${SCENARIO_HASH_KEY}=${encodeScenario(currentScenario())}`);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setScenarioMessage({ text: 'Link copied (链接已复制)', error: false });
+    } catch {
+      setScenarioMessage({ text: 'Link is in the address bar (请从地址栏复制)', error: false });
+    }
   };
 
   // --- Visualization Data Prep ---
-  const scatterData = state.clients.map(c => ({
-    x: c.gradient[0] + (c.gradient[2] * 0.5), // Simple projection
-    y: c.gradient[1] + (c.gradient[3] * 0.5),
+  // Heatmap: which FIM quantile counts as high stiffness (index into STIFFNESS_QUANTILES)
+  const [stiffLevel, setStiffLevel] = useState(2);
+
+  const targetIndicesError = useMemo(() => {
+    try {
+      parseIndexList(targetIndicesText, state.modelSpec.dim);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }, [targetIndicesText, state.modelSpec.dim]);
+
+  const handleTargetIndicesChange = (text: string) => {
+    setTargetIndicesText(text);
+    try {
+      parseIndexList(text, state.modelSpec.dim);
+      setTarget({ ...target, indices: text });
+    } catch {
+      // Kept as text until it parses; the error shows under the input
+    }
+  };
+
+  // The worker projects the round's updates (they never leave it); it re-projects on request
+  useEffect(() => {
+    send({ type: 'projection', view: { method: projectionMethod, weighted: projectionWeighted } });
+  }, [projectionMethod, projectionWeighted]);
+
+  const scatterData = state.clients.map((c, k) => ({
+    x: projection.points[k]?.[0] ?? 0,
+    y: projection.points[k]?.[1] ?? 0,
     z: 10,
     type: c.type,
+    attacking: c.isAttacking,
+    staleness: c.staleness,
     accepted: c.isAccepted,
     score: c.stiffnessViolationScore,
+    layerScores: c.layerStiffness,
+    weight: c.aggregationWeight,
+    cluster: c.clusterId,
+    banned: c.isBanned,
+    reputation: c.reputation,
     id: c.id
   }));
 
+  // Overlay: outline of the accepted clients in the projected plane
+  const acceptedRegion = showAcceptedRegion
+    ? convexHull(scatterData.filter(d => d.accepted).map(d => [d.x, d.y])).map(([x, y]) => ({ x, y }))
+    : [];
+
+  // Pad the auto-scaled axes so markers at the extremes are not clipped
+  const axisDomain = (values: number[]): [number, number] => {
+    if (values.length === 0) return [-1, 1];
+    const lo = Math.min(...values), hi = Math.max(...values);
+    const pad = (hi - lo) * 0.1 || 1;
+    return [lo - pad, hi + pad];
+  };
+  const axisLabels = projection.explained
+    ? [`PC1 (${(projection.explained[0] * 100).toFixed(0)}%)`, `PC2 (${(projection.explained[1] * 100).toFixed(0)}%)`]
+    : [`${PROJECTION_LABELS[projectionMethod]} 1`, `${PROJECTION_LABELS[projectionMethod]} 2`];
+
+  const roundDetection = detectionMetrics(state.clients);
+
+  // The privacy card stays up while the run has spent budget, even after DP is switched off
+  const showPrivacy = privacy.mode !== 'off' || state.privacy.noisyRounds > 0;
+  const showRecovery = recovery.mode !== 'off' || state.recovery.events.length > 0;
+  // Recovery events inside the charted history window
+  const recoveryEvents = state.history.flatMap(h => h.recovery ? [h.recovery] : []);
+
+  // Reputation trajectories of the registered clients that currently have the lowest reputation
+  const reputationClients = useMemo(() => [...state.population.clients]
+    .sort((a, b) => (state.reputation[a.id]?.score ?? 1) - (state.reputation[b.id]?.score ?? 1))
+    .slice(0, MAX_REPUTATION_LINES), [state.population, state.reputation]);
+  const reputationSeries = useMemo(() => state.history.map(h => ({
+    round: h.round,
+    ...Object.fromEntries(reputationClients.map(c => [`#${c.id}`, h.reputation[c.id]]))
+  })), [state.history, reputationClients]);
+
+  // Expected local label counts of every registered client under the current partition
+  const partitionParam = PARTITION_PARAM[partition.scheme];
+  const partitionData = useMemo(() => state.population.clients.map(profile => {
+    const { labelDistribution, dataSize } = clientPartition(profile.partitionSeed, partition);
+    return {
+      label: profile.type === 'malicious' ? `${profile.id}*` : `${profile.id}`,
+      ...Object.fromEntries(labelDistribution.map((p, k) => [`class${k}`, p * dataSize]))
+    };
+  }), [state.population, partition]);
+
+  // The worker sweeps the pooled scores of every round up to the shown one
+  useEffect(() => {
+    send({ type: 'curve', score: curveScore });
+  }, [curveScore]);
+
   return (
     <div className="flex h-full text-slate-200">
       
@@ -302,6 +582,105 @@ const App = () => {
           <p className="text-xs text-slate-500 mt-1">基于动量FIM与刚度冲突检测</p>
         </div>
 
+        <div className="space-y-4 border-t border-slate-800 pt-4">
+          <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <FileJson className="w-4 h-4" /> 实验场景 (Scenario)
+          </h3>
+
+          <select 
+            value=""
+            onChange={e => e.target.value && applyScenario(PRESETS[e.target.value])}
+            className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+          >
+            <option value="">Load Preset (加载预设)…</option>
+            {Object.entries(PRESETS).map(([key, preset]) => (
+              <option key={key} value={key} title={preset.description}>{preset.name}</option>
+            ))}
+          </select>
+
+          <div className="flex justify-between items-center gap-2 text-xs">
+            <span className="shrink-0">Name (名称)</span>
+            <input 
+              type="text" value={scenarioName} onChange={e => setScenarioName(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-200"
+            />
+          </div>
+
+          <div className="flex justify-between items-center gap-2 text-xs">
+            <span>Stop at Round (0 = 不限)</span>
+            <input 
+              type="number" min="0" step="1"
+              value={roundLimit} onChange={e => setRoundLimit(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              className="w-20 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-200"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button 
+              onClick={handleExport}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition"
+            >
+              <Download className="w-3 h-3" /> Export
+            </button>
+            <button 
+              onClick={() => importInput.current?.click()}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition"
+            >
+              <Upload className="w-3 h-3" /> Import
+            </button>
+            <button 
+              onClick={handleShare}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition"
+            >
+              <Link className="w-3 h-3" /> Link
+            </button>
+            <input 
+              ref={importInput} type="file" accept="application/json,.json" className="hidden"
+              onChange={e => { const file = e.target.files?.[0]; if (file) handleImport(file); e.target.value = ''; }}
+            />
+          </div>
+          {scenarioMessage && (
+            <p className={`text-[10px] ${scenarioMessage.error ? 'text-red-400' : 'text-slate-500'}`}>{scenarioMessage.text}</p>
+          )}
+          <p className="text-[10px] text-slate-500">导出的 JSON 可直接用于批量运行 (npm run batch -- --scenario file.json)</p>
+
+          <div className="flex gap-2">
+            <button 
+              onClick={() => dumpFolderInput.current?.click()}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition"
+            >
+              <FolderOpen className="w-3 h-3" /> Dump Folder
+            </button>
+            <button 
+              onClick={() => dumpFileInput.current?.click()}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition"
+            >
+              <FileJson className="w-3 h-3" /> Dump JSON
+            </button>
+            <input 
+              ref={el => { dumpFolderInput.current = el; el?.setAttribute('webkitdirectory', ''); }} type="file" multiple className="hidden"
+              onChange={e => { if (e.target.files) handleImportDump(e.target.files); e.target.value = ''; }}
+            />
+            <input 
+              ref={dumpFileInput} type="file" accept="application/json,.json" className="hidden"
+              onChange={e => { if (e.target.files) handleImportDump(e.target.files); e.target.value = ''; }}
+            />
+          </div>
+          {replay && (
+            <div className="p-2 rounded bg-amber-950/40 border border-amber-800/60 text-[10px] text-amber-200 space-y-1">
+              <div className="flex justify-between items-center gap-2">
+                <span className="truncate">回放 (Replay): <span className="font-mono">{replay.name}</span></span>
+                <button onClick={handleReset} className="shrink-0 px-1.5 py-0.5 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-300">
+                  Back to simulation
+                </button>
+              </div>
+              <div className="text-amber-300/80">{replay.rounds} rounds · {replay.dim.toLocaleString()} params · round {timeline.last}/{replay.rounds}</div>
+              {!replay.labelled && <div className="text-amber-400">No labels.json: detection metrics count every client as benign (无标签)</div>}
+              {recovery.mode !== 'off' && <div className="text-amber-400">Recovery is off for replays: the dump's metrics cannot measure a recovered model (回放时不恢复)</div>}
+            </div>
+          )}
+        </div>
+
         <div className="space-y-4 border-t border-slate-800 pt-4">
           <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
             <Zap className="w-4 h-4" /> 创新点开关 (Proposed)
@@ -320,6 +699,34 @@ const App = () => {
             </div>
           </label>
 
+          <div className="pl-7 space-y-3">
+            {useMomentumFIM && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>FIM Decay β</span>
+                  <span className="text-blue-400">{fimDecay.toFixed(2)}</span>
+                </div>
+                <input 
+                  type="range" min="0.5" max="0.99" step="0.01" 
+                  value={fimDecay} onChange={e => setFimDecay(parseFloat(e.target.value))}
+                  className="w-full accent-blue-500"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>FIM Refresh Interval</span>
+                <span className="text-blue-400">{fimRefreshInterval} {fimRefreshInterval === 1 ? 'round' : 'rounds'}</span>
+              </div>
+              <input 
+                type="range" min="1" max="10" step="1" 
+                value={fimRefreshInterval} onChange={e => setFimRefreshInterval(parseInt(e.target.value, 10))}
+                className="w-full accent-blue-500"
+              />
+              <p className="text-[10px] text-slate-500">由已接受更新的经验Fisher估计 (Empirical Fisher)</p>
+            </div>
+          </div>
+
           <label className="flex items-center gap-3 cursor-pointer group">
             <input 
               type="checkbox" 
@@ -347,6 +754,361 @@ const App = () => {
           </label>
         </div>
 
+        <div className="space-y-4 border-t border-slate-800 pt-4">
+          <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <SlidersHorizontal className="w-4 h-4" /> 检测阈值 (Detection)
+          </h3>
+
+          <select 
+            value={detection.thresholdMethod}
+            onChange={e => setDetection({ ...detection, thresholdMethod: e.target.value as ThresholdMethod })}
+            className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+          >
+            {(Object.keys(THRESHOLD_LABELS) as ThresholdMethod[]).map(method => (
+              <option key={method} value={method}>{THRESHOLD_LABELS[method]}</option>
+            ))}
+          </select>
+
+          {detection.thresholdMethod === 'percentile' ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span>Percentile p (分位数)</span>
+                <span className="text-blue-400">{detection.percentile}</span>
+              </div>
+              <input 
+                type="range" min="50" max="99" step="1" 
+                value={detection.percentile} onChange={e => setDetection({ ...detection, percentile: parseInt(e.target.value, 10) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          ) : detection.thresholdMethod === 'reference' ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span>Reference Multiplier k (参考倍数)</span>
+                <span className="text-blue-400">{detection.referenceK.toFixed(1)}</span>
+              </div>
+              <input 
+                type="range" min="1" max="5" step="0.1" 
+                value={detection.referenceK} onChange={e => setDetection({ ...detection, referenceK: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          ) : null}
+
+          {detection.thresholdMethod === 'mad' && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span>MAD Multiplier k (离群倍数)</span>
+                <span className="text-blue-400">{detection.madK.toFixed(1)}</span>
+              </div>
+              <input 
+                type="range" min="1" max="6" step="0.5" 
+                value={detection.madK} onChange={e => setDetection({ ...detection, madK: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          )}
+
+          {useLayerWeightedClustering && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span>Dendrogram Cut k (聚类切分倍数)</span>
+                <span className="text-blue-400">{detection.clusterK.toFixed(1)}</span>
+              </div>
+              <input 
+                type="range" min="0.5" max="6" step="0.5" 
+                value={detection.clusterK} onChange={e => setDetection({ ...detection, clusterK: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          )}
+
+          {useLayerWeightedClustering && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span>Min Silhouette (拒绝簇轮廓系数)</span>
+                <span className="text-blue-400">{detection.clusterSilhouette.toFixed(2)}</span>
+              </div>
+              <input 
+                type="range" min="0" max="1" step="0.05" 
+                value={detection.clusterSilhouette} onChange={e => setDetection({ ...detection, clusterSilhouette: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          )}
+
+          {useLayerWeightedClustering && (
+            <div className="flex justify-between items-center text-xs">
+              <span>Layer Weights (层权重)</span>
+              <select 
+                value={detection.layerWeighting}
+                onChange={e => setDetection({ ...detection, layerWeighting: e.target.value as LayerWeighting })}
+                className="px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-200"
+              >
+                {(Object.keys(LAYER_WEIGHTING_LABELS) as LayerWeighting[]).map(mode => (
+                  <option key={mode} value={mode}>{LAYER_WEIGHTING_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {useLayerWeightedClustering && (
+            <div className="flex justify-between items-center text-xs">
+              <span>Cluster Linkage (聚类连接)</span>
+              <select 
+                value={detection.linkage}
+                onChange={e => setDetection({ ...detection, linkage: e.target.value as Linkage })}
+                className="px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-200"
+              >
+                <option value="average">Average</option>
+                <option value="complete">Complete</option>
+                <option value="single">Single</option>
+              </select>
+            </div>
+          )}
+          <p className="text-[10px] text-slate-500">阈值由本轮统计量估计；聚类树按 median + k·MAD 切分；少数簇须紧密、远离多数簇且比多数簇更偏离根数据更新才被拒绝</p>
+        </div>
+
+        <div className="space-y-4 border-t border-slate-800 pt-4">
+          <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <Layers className="w-4 h-4" /> 聚合规则 (Aggregation)
+          </h3>
+
+          <select 
+            value={aggregator.rule}
+            onChange={e => setAggregator({ ...aggregator, rule: e.target.value as AggregatorRule })}
+            className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+          >
+            {(Object.keys(AGGREGATOR_LABELS) as AggregatorRule[]).map(rule => (
+              <option key={rule} value={rule}>{AGGREGATOR_LABELS[rule]}</option>
+            ))}
+          </select>
+
+          {aggregator.rule === 'trimmedMean' && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span>Trim Ratio (每端裁剪)</span>
+                <span className="text-blue-400">{aggregator.trimRatio.toFixed(2)}</span>
+              </div>
+              <input 
+                type="range" min="0" max="0.45" step="0.05" 
+                value={aggregator.trimRatio} onChange={e => setAggregator({ ...aggregator, trimRatio: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          )}
+
+          {(aggregator.rule === 'krum' || aggregator.rule === 'multiKrum' || aggregator.rule === 'bulyan') && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span>Assumed Attackers f (假设攻击者数)</span>
+                <span className="text-blue-400">{aggregator.byzantineCount}</span>
+              </div>
+              <input 
+                type="range" min="0" max="9" step="1" 
+                value={aggregator.byzantineCount} onChange={e => setAggregator({ ...aggregator, byzantineCount: parseInt(e.target.value, 10) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          )}
+
+          {aggregator.rule === 'multiKrum' && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span>Selected Updates m (选取数)</span>
+                <span className="text-blue-400">{aggregator.multiKrumSelect}</span>
+              </div>
+              <input 
+                type="range" min="1" max="20" step="1" 
+                value={aggregator.multiKrumSelect} onChange={e => setAggregator({ ...aggregator, multiKrumSelect: parseInt(e.target.value, 10) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          )}
+          <p className="text-[10px] text-slate-500">对通过检测的更新执行服务器聚合 (Applied after FIM filtering)</p>
+        </div>
+
+        <div className="space-y-4 border-t border-slate-800 pt-4">
+          <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <UserCheck className="w-4 h-4" /> 客户端信誉 (Reputation)
+          </h3>
+
+          <label className="flex items-center gap-3 cursor-pointer group">
+            <input 
+              type="checkbox" 
+              checked={reputation.downweight} 
+              onChange={e => setReputation({ ...reputation, downweight: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-600 text-blue-600 focus:ring-blue-500 bg-slate-800"
+            />
+            <div className="flex flex-col">
+              <span className="text-sm font-medium group-hover:text-blue-400 transition">Down-weight (按信誉降权)</span>
+              <span className="text-xs text-slate-500">聚合权重乘以信誉分</span>
+            </div>
+          </label>
+
+          <label className="flex items-center gap-3 cursor-pointer group">
+            <input 
+              type="checkbox" 
+              checked={reputation.ban} 
+              onChange={e => setReputation({ ...reputation, ban: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-600 text-blue-600 focus:ring-blue-500 bg-slate-800"
+            />
+            <div className="flex flex-col">
+              <span className="text-sm font-medium group-hover:text-blue-400 transition">Ban Repeat Offenders (封禁)</span>
+              <span className="text-xs text-slate-500">多次违规后拒绝其所有更新</span>
+            </div>
+          </label>
+
+          {REPUTATION_PARAMS.map(param => (
+            <div key={param.key} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>{param.label}</span>
+                <span className="text-blue-400">{Number.isInteger(param.step) ? reputation[param.key] : reputation[param.key].toFixed(2)}</span>
+              </div>
+              <input 
+                type="range" min={param.min} max={param.max} step={param.step} 
+                value={reputation[param.key]} onChange={e => setReputation({ ...reputation, [param.key]: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          ))}
+          <p className="text-[10px] text-slate-500">
+            已封禁 {reputation.ban ? state.population.clients.filter(c => (state.reputation[c.id]?.bannedRound ?? 0) > 0).length : 0} 个客户端 (Banned)
+          </p>
+        </div>
+
+        <div className="space-y-4 border-t border-slate-800 pt-4">
+          <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <Lock className="w-4 h-4" /> 差分隐私 (Differential Privacy)
+          </h3>
+
+          <select 
+            value={privacy.mode}
+            onChange={e => setPrivacy({ ...privacy, mode: e.target.value as PrivacyMode })}
+            className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+          >
+            {(Object.keys(PRIVACY_MODE_LABELS) as PrivacyMode[]).map(mode => (
+              <option key={mode} value={mode}>{PRIVACY_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+
+          {privacy.mode !== 'off' && (<>
+            <select 
+              value={privacy.placement}
+              onChange={e => setPrivacy({ ...privacy, placement: e.target.value as PrivacyPlacement })}
+              className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+            >
+              {(Object.keys(PRIVACY_PLACEMENT_LABELS) as PrivacyPlacement[]).map(placement => (
+                <option key={placement} value={placement}>{PRIVACY_PLACEMENT_LABELS[placement]}</option>
+              ))}
+            </select>
+
+            {PRIVACY_PARAMS.map(param => (
+              <div key={param.key} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>{param.label}</span>
+                  <span className="text-blue-400">{Number.isInteger(param.step) ? privacy[param.key] : privacy[param.key].toFixed(2)}</span>
+                </div>
+                <input 
+                  type="range" min={param.min} max={param.max} step={param.step} 
+                  value={privacy[param.key]} onChange={e => setPrivacy({ ...privacy, [param.key]: parseFloat(e.target.value) })}
+                  className="w-full accent-blue-500"
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>Target δ (失败概率)</span>
+                <span className="text-blue-400">{privacy.delta.toExponential(0)}</span>
+              </div>
+              <input 
+                type="range" min={DELTA_EXPONENTS.min} max={DELTA_EXPONENTS.max} step="1" 
+                value={-Math.round(Math.log10(privacy.delta))} onChange={e => setPrivacy({ ...privacy, delta: 10 ** -parseInt(e.target.value, 10) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+            <p className="text-[10px] text-slate-500">
+              噪声乘子 z = {noiseMultiplier(privacy).toFixed(2)}, 每坐标噪声 σ = {(noiseMultiplier(privacy) * privacy.clipNorm).toFixed(2)}
+              {privacy.mode === 'central' && ' / 接受数'} (zCDP accountant, no subsampling amplification)
+            </p>
+          </>)}
+        </div>
+
+        <div className="space-y-4 border-t border-slate-800 pt-4">
+          <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <Undo2 className="w-4 h-4" /> 模型恢复 (Recovery)
+          </h3>
+
+          <select
+            value={recovery.mode}
+            onChange={e => setRecovery({ ...recovery, mode: e.target.value as RecoveryMode })}
+            className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+          >
+            {(Object.keys(RECOVERY_MODE_LABELS) as RecoveryMode[]).map(mode => (
+              <option key={mode} value={mode}>{RECOVERY_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+
+          {RECOVERY_PARAMS.filter(param => param.modes.includes(recovery.mode)).map(param => (
+            <div key={param.key} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>{param.label}</span>
+                <span className="text-blue-400">{Number.isInteger(param.step) ? recovery[param.key] : recovery[param.key].toFixed(2)}</span>
+              </div>
+              <input
+                type="range" min={param.min} max={param.max} step={param.step}
+                value={recovery[param.key]} onChange={e => setRecovery({ ...recovery, [param.key]: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          ))}
+          {recovery.mode !== 'off' && (
+            <p className="text-[10px] text-slate-500">
+              {replay && '回放时不生效 (Off for replays) · '}
+              {recovery.mode === 'rollback'
+                ? 'FIM 漂移与刚度以近期轮次的中位数为基准; ASR 突增为仿真先验 (oracle); 连续回滚时退避轮数逐次加倍'
+                : '客户端在检查点窗口内的违规点数达到阈值后, 从模型中减去其累计加权更新 (近似遗忘, Windowed violation points)'}
+              {state.recovery.checkpoints.length > 0 && ` · 检查点 rounds ${state.recovery.checkpoints[0]}–${state.recovery.checkpoints[state.recovery.checkpoints.length - 1]}`}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4 border-t border-slate-800 pt-4">
+          <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <Users className="w-4 h-4" /> 客户端群体 (Population)
+          </h3>
+
+          {POPULATION_PARAMS.map(param => (
+            <div key={param.key} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>{param.label}{param.perRun && <span className="text-slate-500"> *</span>}</span>
+                <span className="text-blue-400">{Number.isInteger(param.step) ? population[param.key] : population[param.key].toFixed(2)}</span>
+              </div>
+              <input 
+                type="range" min={param.min} max={param.max} step={param.step} 
+                value={population[param.key]} onChange={e => handlePopulationChange({ ...population, [param.key]: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          ))}
+
+          <div className="flex justify-between items-center text-xs">
+            <span>Attacker Placement (攻击者分布) <span className="text-slate-500">*</span></span>
+            <select 
+              value={population.attackerPlacement}
+              onChange={e => handlePopulationChange({ ...population, attackerPlacement: e.target.value as AttackerPlacement })}
+              className="px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-200"
+            >
+              {(Object.keys(ATTACKER_PLACEMENT_LABELS) as AttackerPlacement[]).map(placement => (
+                <option key={placement} value={placement}>{ATTACKER_PLACEMENT_LABELS[placement]}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-[10px] text-slate-500">
+            本轮上报 {state.clients.length} / {state.population.clients.length} 个客户端；* 重置后生效 (Reset to apply)
+          </p>
+        </div>
+
         <div className="space-y-4 border-t border-slate-800 pt-4">
           <h3 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
             <Settings className="w-4 h-4" /> 环境设置 (Environment)
@@ -354,28 +1116,181 @@ const App = () => {
           
           <div className="space-y-2">
             <div className="flex justify-between text-xs">
-              <span>Non-IID Degree</span>
-              <span className="text-blue-400">{nonIIDLevel.toFixed(1)}</span>
+              <span>Non-IID Partition (数据划分)</span>
             </div>
-            <input 
-              type="range" min="0" max="2" step="0.1" 
-              value={nonIIDLevel} onChange={e => setNonIIDLevel(parseFloat(e.target.value))}
-              className="w-full accent-blue-500"
-            />
-            <p className="text-[10px] text-slate-500">越高则良性梯度分布越散 (Cluster Harder)</p>
+            <select 
+              value={partition.scheme}
+              onChange={e => setPartition({ ...partition, scheme: e.target.value as PartitionScheme })}
+              className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+            >
+              {(Object.keys(PARTITION_LABELS) as PartitionScheme[]).map(scheme => (
+                <option key={scheme} value={scheme}>{PARTITION_LABELS[scheme]}</option>
+              ))}
+            </select>
+            {partitionParam && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>{partitionParam.label}</span>
+                  <span className="text-blue-400">{Number.isInteger(partitionParam.step) ? partition[partitionParam.key] : partition[partitionParam.key].toFixed(2)}</span>
+                </div>
+                <input 
+                  type="range" min={partitionParam.min} max={partitionParam.max} step={partitionParam.step} 
+                  value={partition[partitionParam.key]} onChange={e => setPartition({ ...partition, [partitionParam.key]: parseFloat(e.target.value) })}
+                  className="w-full accent-blue-500"
+                />
+              </div>
+            )}
+            <p className="text-[10px] text-slate-500">良性梯度越异构越难聚类 (More heterogeneity = harder clustering)</p>
           </div>
 
           <div className="space-y-2">
             <div className="flex justify-between text-xs">
-              <span>Attack Stealth (隐蔽性)</span>
-              <span className="text-red-400">{attackStealth.toFixed(1)}</span>
+              <span>Attack (攻击方式)</span>
             </div>
-            <input 
-              type="range" min="0" max="0.9" step="0.1" 
-              value={attackStealth} onChange={e => setAttackStealth(parseFloat(e.target.value))}
-              className="w-full accent-red-500"
-            />
-             <p className="text-[10px] text-slate-500">越高则攻击幅度越小 (Harder to detect)</p>
+            <select 
+              value={attack.kind}
+              onChange={e => setAttack({ ...attack, kind: e.target.value as AttackKind })}
+              className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+            >
+              {(Object.keys(ATTACK_LABELS) as AttackKind[]).map(kind => (
+                <option key={kind} value={kind}>{ATTACK_LABELS[kind]}</option>
+              ))}
+            </select>
+            {ATTACK_PARAMS[attack.kind].map(param => (
+              <div key={param.key} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>{param.label}</span>
+                  <span className="text-red-400">{attack[param.key].toFixed(2)}</span>
+                </div>
+                <input 
+                  type="range" min={param.min} max={param.max} step={param.step} 
+                  value={attack[param.key]} onChange={e => setAttack({ ...attack, [param.key]: parseFloat(e.target.value) })}
+                  className="w-full accent-red-500"
+                />
+              </div>
+            ))}
+            {ATTACK_PARAMS[attack.kind].length === 0 && (
+              <p className="text-[10px] text-slate-500">扰动幅度由共谋者的良性更新自动优化 (No parameters)</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span>Target Region (攻击目标区域)</span>
+            </div>
+            <select
+              value={target.mode}
+              onChange={e => setTarget({ ...target, mode: e.target.value as TargetMode })}
+              className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+            >
+              {(Object.keys(TARGET_MODE_LABELS) as TargetMode[]).map(mode => (
+                <option key={mode} value={mode}>{TARGET_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            {target.mode === 'indices' && (
+              <div className="space-y-1">
+                <input
+                  type="text" value={targetIndicesText} onChange={e => handleTargetIndicesChange(e.target.value)}
+                  placeholder="0-4, 9, 20-31"
+                  className="w-full px-2 py-1 text-xs font-mono rounded bg-slate-800 border border-slate-600 text-slate-200"
+                />
+                {targetIndicesError && <p className="text-[10px] text-red-400">{targetIndicesError}</p>}
+              </div>
+            )}
+            {target.mode === 'layer' && (
+              <select
+                value={target.layer % state.modelSpec.layers.length}
+                onChange={e => setTarget({ ...target, layer: parseInt(e.target.value, 10) })}
+                className="w-full px-2 py-1 text-xs rounded bg-slate-800 border border-slate-600 text-slate-200"
+              >
+                {state.modelSpec.layers.map((layer, l) => (
+                  <option key={layer.name} value={l}>{layer.name} ({layer.size} params)</option>
+                ))}
+              </select>
+            )}
+            {TARGET_PARAMS.filter(param => param.modes.includes(target.mode)).map(param => (
+              <div key={param.key} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>{param.label}</span>
+                  <span className="text-red-400">{param.key === 'fraction' ? percent(target.fraction) : target.moveEvery}</span>
+                </div>
+                <input
+                  type="range" min={param.min} max={param.max} step={param.step}
+                  value={target[param.key]} onChange={e => setTarget({ ...target, [param.key]: parseFloat(e.target.value) })}
+                  className="w-full accent-red-500"
+                />
+              </div>
+            ))}
+            <p className="text-[10px] text-slate-500">
+              {target.mode === 'full'
+                ? '恶意更新可修改任意参数 (Malicious updates may change any parameter)'
+                : '恶意更新仅修改目标参数, 其余为良性更新 (Only the targets carry the attack)'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span>Model (模型结构)</span>
+              <span className="text-slate-500">Run: {state.modelSpec.dim.toLocaleString()} params</span>
+            </div>
+            <select 
+              value={model.architecture}
+              onChange={e => handleModelChange({ ...model, architecture: e.target.value as ArchitectureKind })}
+              className="w-full px-2 py-1.5 text-sm rounded bg-slate-800 border border-slate-600 text-slate-200"
+            >
+              {(Object.keys(ARCHITECTURE_LABELS) as ArchitectureKind[]).map(arch => (
+                <option key={arch} value={arch}>{ARCHITECTURE_LABELS[arch]}</option>
+              ))}
+            </select>
+            {model.architecture === 'mlp' && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>Hidden Units (隐藏单元)</span>
+                  <span className="text-blue-400">{model.hiddenUnits}</span>
+                </div>
+                <input 
+                  type="range" min={MIN_HIDDEN_EXPONENT} max={MAX_HIDDEN_EXPONENT} step="1" 
+                  value={Math.round(Math.log2(Math.max(1, model.hiddenUnits)))} onChange={e => handleModelChange({ ...model, hiddenUnits: 2 ** parseInt(e.target.value, 10) })}
+                  className="w-full accent-blue-500"
+                />
+              </div>
+            )}
+            {model.architecture === 'cnn' && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>Conv Filters (卷积核数)</span>
+                  <span className="text-blue-400">{model.convFilters}</span>
+                </div>
+                <input 
+                  type="range" min="1" max="64" step="1" 
+                  value={model.convFilters} onChange={e => handleModelChange({ ...model, convFilters: parseInt(e.target.value, 10) })}
+                  className="w-full accent-blue-500"
+                />
+              </div>
+            )}
+            <p className="text-[10px] text-slate-500">结构变更在重置后生效 (Reset to apply)</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span>Random Seed (随机种子)</span>
+              <span className="text-slate-500">Run: {state.seed}</span>
+            </div>
+            <div className="flex gap-2">
+              <input 
+                type="number" min="0" step="1"
+                value={seed} onChange={e => handleSeedChange(Math.max(0, parseInt(e.target.value, 10) || 0) >>> 0)}
+                className="flex-1 min-w-0 px-2 py-1 text-xs rounded bg-slate-800 border border-slate-600 text-slate-200"
+              />
+              <button 
+                onClick={() => handleSeedChange(randomSeed())}
+                title="Random seed"
+                className="p-1.5 bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition"
+              >
+                <Dices className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-500">相同种子与设置可逐轮复现结果 (Reset to apply)</p>
           </div>
         </div>
 
@@ -386,6 +1301,13 @@ const App = () => {
           >
             {isPlaying ? 'Pause' : <><Play className="w-4 h-4"/> Start</>}
           </button>
+          <button 
+            onClick={handleStep}
+            title="Step one round (单步)"
+            className="p-2 bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition"
+          >
+            <SkipForward className="w-4 h-4" />
+          </button>
           <button 
             onClick={handleReset}
             className="p-2 bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition"
@@ -397,42 +1319,145 @@ const App = () => {
 
       {/* Main Content */}
       <div className="flex-1 flex flex-col min-w-0 bg-slate-950">
-        
+
+        {/* View Switch */}
+        <div className="flex gap-2 px-6 pt-4">
+          {([['single', '单次运行 (Single Run)', <Activity key="i" className="w-4 h-4" />], ['ablation', '消融对比 (Ablation)', <GitCompare key="i" className="w-4 h-4" />], ['repeat', '多种子重复 (Repeat)', <Sigma key="i" className="w-4 h-4" />]] as const).map(([key, label, icon]) => (
+            <button 
+              key={key}
+              onClick={() => handleViewChange(key)}
+              className={`flex items-center gap-2 px-3 py-1.5 text-xs rounded border transition ${view === key ? 'bg-blue-500/10 text-blue-400 border-blue-500/50' : 'bg-slate-900 text-slate-400 border-slate-700 hover:text-slate-200'}`}
+            >
+              {icon} {label}
+            </button>
+          ))}
+        </div>
+
+        {view === 'ablation' ? (
+          <AblationView runs={ablation} points={ablationPoints.current} variants={ablationVariants} onVariantsChange={handleAblationVariantsChange} />
+        ) : view === 'repeat' ? (
+          <RepeatView summary={repeat} variants={repeatVariants} seedCount={repeatSeedCount} onChange={handleRepeatChange} />
+        ) : (<>
+        {/* Timeline Scrubber */}
+        <div className="px-6 pt-4 space-y-1">
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            <History className="w-4 h-4 shrink-0" />
+            <button 
+              onClick={() => handleSeek(timeline.viewing - 1)} disabled={timeline.viewing <= timeline.first}
+              title="Previous round" className="p-1 rounded hover:bg-slate-800 disabled:opacity-30"
+            >
+              <StepBack className="w-4 h-4" />
+            </button>
+            <input 
+              type="range" min={timeline.first} max={timeline.last} step="1" 
+              value={timeline.viewing} disabled={timeline.first === timeline.last}
+              onChange={e => handleSeek(parseInt(e.target.value, 10))}
+              className="flex-1 accent-blue-500"
+            />
+            <button 
+              onClick={() => handleSeek(timeline.viewing + 1)} disabled={isLive}
+              title="Next round" className="p-1 rounded hover:bg-slate-800 disabled:opacity-30"
+            >
+              <StepForward className="w-4 h-4" />
+            </button>
+            <span className="w-32 text-right tabular-nums">Round {timeline.viewing} / {timeline.last}</span>
+            <button 
+              onClick={() => handleSeek(null)} disabled={isLive}
+              className="px-2 py-1 rounded border border-slate-700 hover:bg-slate-800 disabled:opacity-30"
+            >
+              最新 (Latest)
+            </button>
+            <button 
+              onClick={handleFork} disabled={isLive}
+              title="Discard the later rounds and continue from this one with the current settings"
+              className="flex items-center gap-1 px-2 py-1 rounded border border-slate-700 hover:bg-slate-800 disabled:opacity-30"
+            >
+              <GitFork className="w-3 h-3" /> 从此轮分叉 (Fork)
+            </button>
+          </div>
+          <div className="flex items-center gap-3 text-[10px] text-slate-500 pl-7">
+            <span>保留最近 (Keep last)</span>
+            <input 
+              type="number" min="1" step="10" value={timelineConfig.capacity} disabled={timelineConfig.keepAll}
+              onChange={e => handleTimelineConfigChange({ ...timelineConfig, capacity: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="w-16 px-1 py-0.5 rounded bg-slate-800 border border-slate-600 text-slate-200 disabled:opacity-40"
+            />
+            <span>轮 (rounds)</span>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input 
+                type="checkbox" checked={timelineConfig.keepAll}
+                onChange={e => handleTimelineConfigChange({ ...timelineConfig, keepAll: e.target.checked })}
+                className="accent-blue-500"
+              />
+              全部保留 (Keep all)
+            </label>
+            <span>已存 {timeline.last - timeline.first + 1} 轮 ≈ {(timeline.bytes / 2 ** 20).toFixed(1)} MB</span>
+            {!isLive && <span className="text-amber-400">正在查看历史轮次 (Viewing a past round)</span>}
+          </div>
+        </div>
+
         {/* Top Stats */}
-        <div className="grid grid-cols-4 gap-4 p-6 border-b border-slate-800 bg-slate-900/50">
+        <div className={`grid ${['grid-cols-4', 'grid-cols-5', 'grid-cols-6'][Number(showPrivacy) + Number(showRecovery)]} gap-4 p-6 border-b border-slate-800 bg-slate-900/50`}>
           <StatCard 
             label="Current Round" 
             value={state.round} 
+            subValue={AGGREGATOR_LABELS[aggregator.rule]}
             icon={<Database className="w-4 h-4 text-slate-400" />} 
           />
           <StatCard 
             label="Main Task Accuracy" 
-            value={(state.globalAccuracy * 100).toFixed(1) + '%'} 
+            value={formatRate(state.globalAccuracy)} 
             subValue={state.history.length > 1 ? (state.globalAccuracy - state.history[state.history.length-2].acc > 0 ? '↑' : '↓') : ''}
             icon={<Activity className="w-4 h-4 text-green-400" />} 
             color="text-green-400"
           />
           <StatCard 
             label="Backdoor Success Rate" 
-            value={(state.backdoorSuccessRate * 100).toFixed(1) + '%'} 
+            value={formatRate(state.backdoorSuccessRate)} 
             icon={<ShieldAlert className="w-4 h-4 text-red-400" />} 
             color={state.backdoorSuccessRate > 0.1 ? "text-red-500" : "text-slate-400"}
           />
            <StatCard 
             label="Detected Malicious" 
-            value={state.clients.filter(c => c.type === 'malicious' && !c.isAccepted).length + ' / ' + state.clients.filter(c => c.type === 'malicious').length} 
+            value={roundDetection.tp + ' / ' + (roundDetection.tp + roundDetection.fn)} 
+            subValue={`FP ${roundDetection.fp}`}
             icon={<Users className="w-4 h-4 text-blue-400" />} 
           />
+          {showPrivacy && (
+            <StatCard 
+              label="Privacy Spent (ε)" 
+              value={state.privacy.epsilon.toFixed(2)} 
+              subValue={`/ ${privacy.epsilon} · δ=${privacy.delta.toExponential(0)}`}
+              icon={<Lock className="w-4 h-4 text-purple-400" />} 
+              color={state.privacy.epsilon > privacy.epsilon ? 'text-red-500' : 'text-purple-400'}
+            />
+          )}
+          {showRecovery && (
+            <StatCard 
+              label="Rounds Lost (回滚损失)" 
+              value={state.recovery.roundsLost} 
+              subValue={`${state.recovery.events.filter(e => e.kind === 'rollback').length} rollbacks · ${state.recovery.events.filter(e => e.kind === 'unlearn').length} unlearned`}
+              icon={<Undo2 className="w-4 h-4 text-cyan-400" />} 
+              color="text-cyan-400"
+            />
+          )}
         </div>
 
         {/* Visualization Grid */}
-        <div className="flex-1 p-6 grid grid-cols-2 grid-rows-2 gap-6 overflow-hidden">
+        <div className="flex-1 p-6 grid grid-cols-2 auto-rows-[minmax(16rem,1fr)] gap-6 overflow-y-auto">
           
           {/* Chart 1: Metrics over time */}
           <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col">
-            <h4 className="text-sm font-semibold text-slate-400 mb-4 flex items-center gap-2">
-              <BarChart3 className="w-4 h-4" /> Performance Metrics
-            </h4>
+            <div className="flex justify-between items-center mb-4">
+              <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+                <BarChart3 className="w-4 h-4" /> Performance Metrics
+              </h4>
+              {recoveryEvents.length > 0 && (
+                <span className="text-xs text-slate-500" title={recoveryEvents.map(e => `R${e.round} ${e.kind}: ${e.reason}`).join('\n')}>
+                  <span className="text-cyan-400">┆ rollback</span> (−损失轮次, 虚线 = 恢复点) · <span className="text-purple-400">┆ unlearn</span>
+                </span>
+              )}
+            </div>
             <div className="flex-1 w-full min-h-0">
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={state.history}>
@@ -444,6 +1469,18 @@ const App = () => {
                     itemStyle={{ fontSize: '12px' }}
                   />
                   <Legend />
+                  {/* Recovery: a marker per event; a rollback also marks the round it restored */}
+                  {recoveryEvents.map(e => (
+                    <React.Fragment key={e.round}>
+                      {e.kind === 'rollback' && e.restoredRound >= state.history[0].round && (
+                        <ReferenceLine x={e.restoredRound} stroke="#22d3ee" strokeOpacity={0.4} strokeDasharray="1 3" />
+                      )}
+                      <ReferenceLine 
+                        x={e.round} stroke={e.kind === 'rollback' ? '#22d3ee' : '#c084fc'} strokeDasharray="3 3"
+                        label={{ value: e.kind === 'rollback' ? `−${e.roundsLost}` : `−${e.clients.length}`, position: 'top', fill: '#94a3b8', fontSize: 10 }}
+                      />
+                    </React.Fragment>
+                  ))}
                   <Line type="monotone" dataKey="acc" name="Accuracy (良性任务)" stroke="#4ade80" strokeWidth={2} dot={false} />
                   <Line type="monotone" dataKey="asr" name="ASR (后门成功率)" stroke="#f87171" strokeWidth={2} dot={false} />
                 </LineChart>
@@ -451,52 +1488,135 @@ const App = () => {
             </div>
           </div>
 
-          {/* Chart 2: Client Gradient Projection (PCA Simulation) */}
+          {/* Chart 2: Detection quality over time */}
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col">
+            <div className="flex justify-between items-center mb-4">
+              <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+                <Crosshair className="w-4 h-4" /> Detection Metrics
+              </h4>
+              <span className="text-xs text-slate-500">
+                TP {roundDetection.tp} · FP {roundDetection.fp} · TN {roundDetection.tn} · FN {roundDetection.fn}
+              </span>
+            </div>
+            <div className="flex-1 w-full min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={state.history}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="round" stroke="#64748b" fontSize={12} />
+                  <YAxis domain={[0, 1]} stroke="#64748b" fontSize={12} />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+                    itemStyle={{ fontSize: '12px' }}
+                    formatter={(v: number) => v.toFixed(2)}
+                  />
+                  <Legend />
+                  <Line type="monotone" dataKey="detection.precision" name="Precision" stroke="#60a5fa" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="detection.recall" name="Recall (TPR)" stroke="#f87171" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="detection.fpr" name="FPR (误拒良性)" stroke="#fbbf24" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="detection.f1" name="F1" stroke="#4ade80" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Chart 3: Client Gradient Projection */}
           <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col">
              <div className="flex justify-between items-center mb-4">
                <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
                 <Users className="w-4 h-4" /> Gradient Clustering (2D Proj)
               </h4>
               <div className="flex gap-3 text-xs">
-                <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-blue-500"></div> Benign</span>
-                <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-red-500"></div> Malicious</span>
+                {colorByCluster ? (
+                  <>
+                    <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full" style={{ backgroundColor: CLUSTER_COLORS[0] }}></div> Majority</span>
+                    <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full" style={{ backgroundColor: CLUSTER_COLORS[1] }}></div> Other Clusters</span>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-blue-500"></div> Benign</span>
+                    <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-red-500"></div> Malicious</span>
+                  </>
+                )}
                 <span className="flex items-center gap-1"><div className="w-2 h-2 border border-slate-400"></div> Rejected</span>
               </div>
              </div>
+            <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-slate-400">
+              <select 
+                value={projectionMethod}
+                onChange={e => setProjectionMethod(e.target.value as ProjectionMethod)}
+                className="px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-200"
+              >
+                {(Object.keys(PROJECTION_LABELS) as ProjectionMethod[]).map(method => (
+                  <option key={method} value={method}>{PROJECTION_LABELS[method]}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={projectionWeighted} onChange={e => setProjectionWeighted(e.target.checked)} className="accent-blue-500" />
+                FIM-Weighted
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={colorByCluster} onChange={e => setColorByCluster(e.target.checked)} className="accent-blue-500" />
+                Color by Cluster
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={showAcceptedRegion} onChange={e => setShowAcceptedRegion(e.target.checked)} className="accent-blue-500" />
+                Accepted Region
+              </label>
+            </div>
             <div className="flex-1 w-full min-h-0 relative">
-               {/* Background Zones */}
-               <div className="absolute inset-0 flex items-center justify-center opacity-10 pointer-events-none">
-                  <div className="w-3/4 h-3/4 border-2 border-dashed border-blue-500 rounded-full"></div>
-               </div>
-
               <ResponsiveContainer width="100%" height="100%">
-                <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+                <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 20 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-                  <XAxis type="number" dataKey="x" name="PC1" stroke="#64748b" hide domain={[-30, 30]} />
-                  <YAxis type="number" dataKey="y" name="PC2" stroke="#64748b" hide domain={[-30, 30]} />
+                  <XAxis 
+                    type="number" dataKey="x" name={axisLabels[0]} stroke="#64748b" tick={false} 
+                    domain={axisDomain(scatterData.map(d => d.x))} 
+                    label={{ value: axisLabels[0], position: 'insideBottom', fill: '#64748b', fontSize: 11 }}
+                  />
+                  <YAxis 
+                    type="number" dataKey="y" name={axisLabels[1]} stroke="#64748b" tick={false} width={20} 
+                    domain={axisDomain(scatterData.map(d => d.y))} 
+                    label={{ value: axisLabels[1], angle: -90, position: 'insideLeft', fill: '#64748b', fontSize: 11 }}
+                  />
                   <ZAxis type="number" dataKey="z" range={[50, 400]} />
                   <Tooltip 
                      cursor={{ strokeDasharray: '3 3' }}
                      content={({ active, payload }) => {
-                        if (active && payload && payload.length) {
+                        if (active && payload && payload.length && payload[0].payload.id !== undefined) {
                           const data = payload[0].payload;
                           return (
                             <div className="bg-slate-800 border border-slate-700 p-2 rounded shadow-xl text-xs">
                               <p className="font-bold mb-1">Client #{data.id}</p>
-                              <p>Type: <span className={data.type === 'malicious' ? 'text-red-400' : 'text-blue-400'}>{data.type}</span></p>
-                              <p>Status: <span className={data.accepted ? 'text-green-400' : 'text-red-500 font-bold'}>{data.accepted ? 'Accepted' : 'Blocked'}</span></p>
+                              <p>Type: <span className={data.type === 'malicious' ? 'text-red-400' : 'text-blue-400'}>{data.type}</span>
+                                {data.type === 'malicious' && !data.attacking && <span className="text-slate-400"> (dormant)</span>}</p>
+                              {data.staleness > 0 && <p className="text-amber-400">Straggler: {data.staleness} round(s) stale</p>}
+                              <p>Status: <span className={data.accepted ? 'text-green-400' : 'text-red-500 font-bold'}>{data.accepted ? 'Accepted' : data.banned ? 'Banned' : 'Blocked'}</span></p>
+                              <p>Reputation: {data.reputation.toFixed(2)}</p>
                               <p>Conflict Score: {data.score.toFixed(2)}</p>
+                              {state.modelSpec.layers.map((layer, l) => (
+                                <p key={layer.name} className="pl-2 text-slate-400">{layer.name}: {data.layerScores[l].toFixed(2)}</p>
+                              ))}
+                              {data.cluster >= 0 && <p>Cluster: {data.cluster === 0 ? 'Majority' : `#${data.cluster}`}</p>}
+                              <p>Agg. Weight: {(data.weight * 100).toFixed(1)}%</p>
+                              <p className="text-slate-500 mt-1">点击查看取证 (Click for forensics)</p>
                             </div>
                           );
                         }
                         return null;
                      }}
                   />
-                  <Scatter name="Clients" data={scatterData} shape={(props: any) => {
+                  {acceptedRegion.length > 1 && (
+                    <Scatter 
+                      name="Accepted Region" data={acceptedRegion} shape={() => null} isAnimationActive={false}
+                      line={{ stroke: '#4ade80', strokeDasharray: '4 4', strokeWidth: 1 }} 
+                    />
+                  )}
+                  <Scatter name="Clients" data={scatterData} cursor="pointer" onClick={(point: { payload?: { id: number }; id?: number }) => handleInspect(point.payload?.id ?? point.id ?? null)} shape={(props: any) => {
                     const { cx, cy, payload } = props;
                     const isMalicious = payload.type === 'malicious';
                     const isRejected = !payload.accepted;
-                    const fill = isMalicious ? '#ef4444' : '#3b82f6';
+                    const fill = colorByCluster
+                      ? (payload.cluster < 0 ? '#64748b' : CLUSTER_COLORS[Math.min(payload.cluster, CLUSTER_COLORS.length - 1)])
+                      : (isMalicious ? (payload.attacking ? '#ef4444' : '#fca5a5') : '#3b82f6'); // Light red: attacker outside its window
                     const opacity = isRejected ? 0.3 : 1;
                     const stroke = isRejected ? '#94a3b8' : 'none';
                     const strokeWidth = isRejected ? 2 : 0;
@@ -519,43 +1639,180 @@ const App = () => {
             </div>
           </div>
 
+          {/* Chart 4: ROC / PR from sweeping the threshold over stored scores */}
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col">
+            <div className="flex justify-between items-center mb-4">
+              <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+                <SlidersHorizontal className="w-4 h-4" /> Threshold Sweep
+              </h4>
+              <div className="flex gap-2 text-xs">
+                <select 
+                  value={curveScore}
+                  onChange={e => setCurveScore(e.target.value as typeof curveScore)}
+                  className="px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-200"
+                >
+                  <option value="stiffness">Stiffness Score</option>
+                  <option value="distance">FIM Distance</option>
+                </select>
+                <select 
+                  value={curveKind}
+                  onChange={e => setCurveKind(e.target.value as typeof curveKind)}
+                  className="px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-200"
+                >
+                  <option value="roc">ROC</option>
+                  <option value="pr">Precision-Recall</option>
+                </select>
+              </div>
+            </div>
+            <div className="flex-1 w-full min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis 
+                    type="number" dataKey={curveKind === 'roc' ? 'fpr' : 'recall'} domain={[0, 1]} 
+                    stroke="#64748b" fontSize={12} 
+                    label={{ value: curveKind === 'roc' ? 'FPR' : 'Recall', position: 'insideBottomRight', offset: -2, fill: '#64748b', fontSize: 11 }}
+                  />
+                  <YAxis 
+                    type="number" dataKey={curveKind === 'roc' ? 'tpr' : 'precision'} domain={[0, 1]} 
+                    stroke="#64748b" fontSize={12} 
+                  />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+                    itemStyle={{ fontSize: '12px' }}
+                    labelFormatter={() => ''}
+                    formatter={(v: number) => v.toFixed(2)}
+                  />
+                  <Line 
+                    data={curveKind === 'roc' ? [{ fpr: 0, tpr: 0 }, { fpr: 1, tpr: 1 }] : []} 
+                    dataKey="tpr" name="Chance" stroke="#475569" strokeDasharray="4 4" dot={false} isAnimationActive={false} 
+                  />
+                  <Line 
+                    data={sweep.points} dataKey={curveKind === 'roc' ? 'tpr' : 'precision'} 
+                    name={curveKind === 'roc' ? 'TPR' : 'Precision'} 
+                    stroke="#60a5fa" strokeWidth={2} dot={false} isAnimationActive={false} type="linear" 
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-[10px] text-slate-500 mt-2">
+              {curveKind === 'roc' ? `AUC ${sweep.auc.toFixed(3)}` : `AP ${sweep.ap.toFixed(3)}`} · 汇总全部 {sweep.rounds} 轮的客户端得分 (Pooled over every round)
+            </p>
+          </div>
+
+          {/* Panel: Client Forensics (opened from the scatter) */}
+          {inspectedClient !== null && (
+            <ForensicsPanel 
+              clientId={inspectedClient} round={timeline.viewing} forensics={forensics} spec={state.modelSpec}
+              onClose={() => handleInspect(null)}
+            />
+          )}
+
           {/* Panel 3: FIM Heatmap Visualization */}
           <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 col-span-2 flex flex-col">
              <div className="flex justify-between items-center mb-4">
                 <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
                   <Activity className="w-4 h-4" /> Global Momentum FIM (Stiffness Map)
                 </h4>
-                <span className="text-xs text-slate-500">参数索引 0-4 为高敏感区 (Stiffness High)，攻击者常在此处修改</span>
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                  <span title="Bars above this FIM quantile are high stiffness (高刚度)">
+                    <span className="inline-block w-2 h-2 rounded-sm bg-amber-500/80 mr-1"></span>high stiffness: top
+                  </span>
+                  <select 
+                    value={stiffLevel}
+                    onChange={(e) => setStiffLevel(parseInt(e.target.value, 10))}
+                    className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300"
+                  >
+                    {STIFFNESS_QUANTILES.map((q, i) => <option key={q} value={i}>{Math.round((1 - q) * 100)}%</option>)}
+                  </select>
+                  <span title={state.target.preview.join(', ') + (state.target.count > state.target.preview.length ? ', …' : '')}>
+                    <span className="inline-block w-2 h-2 rounded-sm bg-red-500 mr-1"></span>
+                    attack targets (攻击目标): {state.target.count <= state.target.preview.length ? state.target.preview.join(', ') : `${state.target.count} params`}
+                    {state.target.epoch > 0 && <> · moved {state.target.epoch}×</>}
+                    {state.target.count > 0 && <> · {percent(state.target.stiffShare[stiffLevel] ?? 0)} stiff</>}
+                  </span>
+                </div>
              </div>
              
-             <div className="flex-1 flex items-end gap-1 min-h-0">
-                {state.globalFIM.map((val, idx) => {
-                  const heightPercent = Math.min(100, Math.max(10, val * 8));
-                  const isHighStiffness = idx < 5;
-                  return (
-                    <div key={idx} className="flex-1 flex flex-col justify-end group relative">
-                       <div 
-                        className={`w-full rounded-t transition-all duration-500 ${isHighStiffness ? 'bg-amber-500/80' : 'bg-slate-700/50'}`} 
-                        style={{ height: `${heightPercent}%` }}
-                       ></div>
-                       <div className="text-[9px] text-center text-slate-600 mt-1">{idx}</div>
-                       
-                       {/* Tooltip */}
-                       <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-slate-800 text-[10px] rounded text-white opacity-0 group-hover:opacity-100 pointer-events-none whitespace-nowrap border border-slate-700 z-10">
-                          FIM: {val.toFixed(2)}
-                       </div>
-                    </div>
-                  )
-                })}
-             </div>
+             <FIMHeatmap fim={state.fim} spec={state.modelSpec} layerWeights={state.layerWeights} threshold={state.fim.quantiles[stiffLevel] ?? Infinity} />
           </div>
 
+          {/* Panel 4: Reputation Trajectories */}
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 col-span-2 flex flex-col">
+            <div className="flex justify-between items-center mb-4">
+              <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+                <UserCheck className="w-4 h-4" /> Client Reputation (信誉轨迹)
+              </h4>
+              <span className="text-xs text-slate-500">
+                红色为攻击者, 虚线为已封禁; 显示信誉最低的 {reputationClients.length} / {state.population.clients.length} 个客户端
+              </span>
+            </div>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={reputationSeries}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="round" stroke="#64748b" fontSize={12} />
+                  <YAxis domain={[0, 1]} stroke="#64748b" fontSize={12} />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+                    itemStyle={{ fontSize: '11px' }}
+                    formatter={(v: number) => v.toFixed(2)}
+                    itemSorter={item => Number(item.value)}
+                  />
+                  {reputationClients.map(c => (
+                    <Line 
+                      key={c.id} dataKey={`#${c.id}`} type="monotone" dot={false} isAnimationActive={false} connectNulls={false}
+                      stroke={c.type === 'malicious' ? '#ef4444' : '#3b82f6'} strokeOpacity={0.7} strokeWidth={1.5}
+                      strokeDasharray={reputation.ban && (state.reputation[c.id]?.bannedRound ?? 0) > 0 ? '4 3' : undefined}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Panel 5: Per-Client Label Histogram (simulated clients only) */}
+          {!replay && <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 col-span-2 flex flex-col">
+            <div className="flex justify-between items-center mb-4">
+              <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+                <Database className="w-4 h-4" /> Client Data Partition ({PARTITION_LABELS[partition.scheme]})
+              </h4>
+              <span className="text-xs text-slate-500">每轮本地样本的期望类别数 (Expected samples per class); * = 攻击者</span>
+            </div>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={partitionData} barCategoryGap={1}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="label" stroke="#94a3b8" fontSize={10} interval="preserveStartEnd" />
+                  <YAxis stroke="#94a3b8" fontSize={12} />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+                    itemStyle={{ fontSize: '12px' }}
+                    labelFormatter={label => `Client #${label}`}
+                    formatter={(v: number) => v.toFixed(1)}
+                  />
+                  <Legend />
+                  {Array.from({ length: NUM_CLASSES }, (_, k) => (
+                    <Bar 
+                      key={k} dataKey={`class${k}`} stackId="labels" fill={CLASS_COLORS[k % CLASS_COLORS.length]} isAnimationActive={false}
+                      name={k === BACKDOOR_TARGET ? `Class ${k} (backdoor target)` : `Class ${k}`} 
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>}
+
         </div>
+        </>)}
       </div>
     </div>
   );
 };
 
+// Accuracy and ASR are NaN in replays whose dump has no metrics for the round
+const formatRate = (rate: number) => Number.isFinite(rate) ? percent(rate) : '—';
+
 const StatCard = ({ label, value, subValue, icon, color = "text-white" }: any) => (
   <div className="bg-slate-950 border border-slate-800 p-4 rounded-lg flex flex-col gap-1">
     <div className="flex items-center justify-between text-slate-500 text-xs uppercase font-medium tracking-wider">
@@ -569,5 +1826,525 @@ const StatCard = ({ label, value, subValue, icon, color = "text-white" }: any) =
   </div>
 );
 
+// FIM bars grouped by layer (bucketed in the worker); click a layer name to collapse it into a single bar.
+// Bars above `threshold` are high stiffness; bars holding an attack target get a red base mark.
+const FIMHeatmap = ({ fim, spec, layerWeights, threshold }: { fim: FIMSummary; spec: ModelSpec; layerWeights: number[]; threshold: number }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const maxFIM = fim.max || 1;
+
+  const toggle = (name: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    next.has(name) ? next.delete(name) : next.add(name);
+    return next;
+  });
+
+  return (
+    <div className="flex-1 flex gap-3 min-h-0">
+      {spec.layers.map((layer, l) => {
+        const isCollapsed = collapsed.has(layer.name);
+        const bars = isCollapsed ? [fim.layers[l].total] : fim.layers[l].bars;
+        return (
+          <div key={layer.name} className="flex flex-col min-w-0" style={{ flexGrow: bars.length, flexBasis: 0 }}>
+            <button 
+              onClick={() => toggle(layer.name)}
+              className="text-[10px] text-left text-slate-400 hover:text-blue-400 truncate mb-1"
+              title={`${layer.name} [${layer.shape.join('x')}]`}
+            >
+              {isCollapsed ? '▸' : '▾'} {layer.name}
+              {layerWeights.length > 0 && <span className="text-slate-600"> w={layerWeights[l].toFixed(2)}</span>}
+            </button>
+            <div className="flex-1 flex items-end gap-px min-h-0 border-b border-slate-700">
+              {bars.map(bar => (
+                <div key={bar.start} className="flex-1 h-full flex flex-col justify-end group relative min-w-0">
+                  <div 
+                    className={`w-full rounded-t transition-all duration-500 ${bar.max > threshold ? 'bg-amber-500/80' : 'bg-slate-700/50'}`} 
+                    style={{ height: `${Math.min(100, Math.max(4, bar.max / maxFIM * 100))}%` }}
+                  ></div>
+                  {bar.targeted && <div className="absolute bottom-0 left-0 right-0 h-1 bg-red-500"></div>}
+
+                  {/* Tooltip */}
+                  <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-slate-800 text-[10px] rounded text-white opacity-0 group-hover:opacity-100 pointer-events-none whitespace-nowrap border border-slate-700 z-10">
+                    {bar.end - bar.start === 1
+                      ? <>#{bar.start} FIM: {bar.max.toPrecision(3)}</>
+                      : <>#{bar.start}–{bar.end - 1} max: {bar.max.toPrecision(3)} mean: {bar.mean.toPrecision(3)}</>}
+                    {bar.targeted && <span className="text-red-400"> · target</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="text-[9px] text-slate-600 mt-1 truncate">{layer.size} params</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Why one client was accepted or rejected in the viewed round (computed in the worker, see forensics.ts)
+const ForensicsPanel = ({ clientId, round, forensics, spec, onClose }: {
+  clientId: number; round: number; forensics: ClientForensics | null; spec: ModelSpec; onClose: () => void;
+}) => {
+  const fired = forensics ? forensics.checks.filter(c => c.fired) : [];
+  const range = (p: { start: number; end: number }) => p.end - p.start === 1 ? `#${p.start}` : `#${p.start}–${p.end - 1}`;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 col-span-2 row-span-2 flex flex-col">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+          <Microscope className="w-4 h-4" /> Client #{clientId} Forensics (客户端取证) · Round {round}
+          {forensics && (
+            <span className={forensics.client.type === 'malicious' ? 'text-red-400' : 'text-blue-400'}>
+              {forensics.client.type}{forensics.client.type === 'malicious' && !forensics.client.isAttacking && ' (dormant)'}
+            </span>
+          )}
+        </h4>
+        <button onClick={onClose} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!forensics ? (
+        <p className="text-xs text-slate-500">该客户端未参与本轮 (Client #{clientId} did not report in round {round})</p>
+      ) : (<>
+        {/* Verdict: every server check with the value it compared and its threshold */}
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+          <span className={`font-bold ${forensics.client.isAccepted ? 'text-green-400' : 'text-red-500'}`}>
+            {forensics.client.isAccepted ? 'Accepted (接受)' : `Blocked by ${fired.map(c => CHECK_LABELS[c.kind]).join(' + ')} (拒绝)`}
+          </span>
+          {forensics.checks.filter(c => c.kind !== 'banned' || c.ran).map(check => (
+            <span 
+              key={check.kind}
+              className={`px-2 py-1 rounded border ${!check.ran ? 'border-slate-800 text-slate-600' : check.fired ? 'border-red-500/60 bg-red-500/10 text-red-300' : 'border-green-500/40 bg-green-500/10 text-green-300'}`}
+            >
+              {CHECK_LABELS[check.kind]}: {!check.ran ? 'not run' : check.kind === 'banned' ? 'banned by reputation'
+                : check.kind === 'cluster' ? `${check.value === 0 ? 'majority' : `cluster #${check.value}`} (cut ${check.threshold!.toFixed(3)})`
+                : `${check.value!.toFixed(3)} ${check.fired ? '>' : '≤'} ${check.threshold!.toFixed(3)}`}
+            </span>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-4 mb-3 text-[11px] text-slate-400">
+          <span>FIM Distance to median: <span className="text-slate-200">{forensics.distanceToMedian.toFixed(3)}</span></span>
+          {forensics.distanceToMajority !== undefined && (
+            <span>Mean distance to majority: <span className="text-slate-200">{forensics.distanceToMajority.toFixed(3)}</span></span>
+          )}
+          <span>L2 Norm: <span className="text-slate-200">{forensics.magnitude.toFixed(3)}</span></span>
+          <span>Reputation: <span className="text-slate-200">{forensics.client.reputation.toFixed(2)}</span></span>
+          {forensics.parameters[0].end - forensics.parameters[0].start > 1 && (
+            <span className="text-slate-500">每点为 {forensics.parameters[0].end - forensics.parameters[0].start} 个参数的区间 (Buckets of {forensics.parameters[0].end - forensics.parameters[0].start} params)</span>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[1fr_1fr_14rem] gap-4">
+          {/* Update against the FIM it was scored with */}
+          <div className="flex flex-col min-h-0">
+            <p className="text-[11px] text-slate-500 mb-1">Update vs. FIM (更新与FIM)</p>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={forensics.parameters}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="start" stroke="#64748b" fontSize={10} />
+                  <YAxis yAxisId="update" stroke="#60a5fa" fontSize={10} tickFormatter={(v: number) => v.toPrecision(2)} />
+                  <YAxis yAxisId="fim" orientation="right" stroke="#f59e0b" fontSize={10} tickFormatter={(v: number) => v.toPrecision(2)} />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+                    itemStyle={{ fontSize: '11px' }}
+                    labelFormatter={(_, payload) => payload?.[0] ? `${range(payload[0].payload)} (${payload[0].payload.layer})` : ''}
+                    formatter={(v: number) => v.toPrecision(3)}
+                  />
+                  <Line yAxisId="update" dataKey="update" name="Update" stroke="#60a5fa" dot={false} isAnimationActive={false} type="linear" />
+                  <Line yAxisId="fim" dataKey="fim" name="FIM" stroke="#f59e0b" dot={false} isAnimationActive={false} type="linear" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* FIM_i * |update_i|, in units of the stiffness score (bars add up to it) */}
+          <div className="flex flex-col min-h-0">
+            <p className="text-[11px] text-slate-500 mb-1">
+              Stiffness contribution FIM·|g| (Σ = {forensics.client.stiffnessViolationScore.toFixed(3)}); red = attack targets
+            </p>
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={forensics.parameters} barCategoryGap={0}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="start" stroke="#64748b" fontSize={10} />
+                  <YAxis stroke="#64748b" fontSize={10} tickFormatter={(v: number) => v.toPrecision(2)} />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+                    itemStyle={{ fontSize: '11px' }}
+                    labelFormatter={(_, payload) => payload?.[0] ? `${range(payload[0].payload)} (${payload[0].payload.layer})` : ''}
+                    formatter={(v: number) => v.toPrecision(3)}
+                  />
+                  <Bar dataKey="contribution" name="Contribution" isAnimationActive={false}>
+                    {forensics.parameters.map(p => (
+                      <Cell key={p.start} fill={p.targeted ? '#f87171' : '#94a3b8'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Where the score comes from */}
+          <div className="flex flex-col min-h-0 overflow-y-auto text-[11px]">
+            <p className="text-slate-500 mb-1">By layer (按层)</p>
+            <table className="w-full mb-3">
+              <tbody>
+                {forensics.layers.map(layer => (
+                  <tr key={layer.layer} className="border-t border-slate-800">
+                    <td className="py-0.5 text-slate-400 truncate max-w-[6rem]" title={layer.layer}>{layer.layer}</td>
+                    <td className="py-0.5 text-right text-slate-200">{percent(layer.share)}</td>
+                    <td className="py-0.5 text-right text-slate-500" title="Layer stiffness relative to the round median">×{layer.score.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-slate-500 mb-1">Top parameters (贡献最大的参数)</p>
+            <table className="w-full">
+              <tbody>
+                {forensics.topParameters.map(p => (
+                  <tr key={p.start} className={`border-t border-slate-800 ${p.targeted ? 'text-red-400' : 'text-slate-300'}`}>
+                    <td className="py-0.5">#{p.start}</td>
+                    <td className="py-0.5 text-slate-500 truncate max-w-[4rem]" title={spec.layers.find(l => l.name === p.layer)?.shape.join('x')}>{p.layer}</td>
+                    <td className="py-0.5 text-right" title={`update ${p.update.toPrecision(3)} · FIM ${p.fim.toPrecision(3)}`}>{p.contribution.toPrecision(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </>)}
+    </div>
+  );
+};
+
+type AblationMetric = 'acc' | 'asr' | 'recall' | 'fpr';
+
+const ABLATION_METRICS: Record<AblationMetric, { label: string; value: (p: RunPoint) => number }> = {
+  acc: { label: 'Accuracy (良性任务)', value: h => h.acc },
+  asr: { label: 'ASR (后门成功率)', value: h => h.asr },
+  recall: { label: 'Recall (检出率)', value: h => h.detection.recall },
+  fpr: { label: 'FPR (误报率)', value: h => h.detection.fpr }
+};
+
+const percent = (v: number) => (v * 100).toFixed(1) + '%';
+
+// Every round of every variant, for plotting outside the app
+const ablationCSV = (runs: { label: string; points: RunPoint[] }[]): string => {
+  const columns = ['defenses', 'round', 'acc', 'asr', 'participants', 'tp', 'fp', 'tn', 'fn', 'precision', 'recall', 'fpr', 'f1'];
+  const rows = runs.flatMap(run => run.points.map(h => [
+    run.label, h.round, h.acc, h.asr, h.participants,
+    h.detection.tp, h.detection.fp, h.detection.tn, h.detection.fn,
+    h.detection.precision, h.detection.recall, h.detection.fpr, h.detection.f1
+  ].map(v => typeof v === 'number' ? String(Number(v.toFixed(6))) : v).join(',')));
+  return [columns.join(','), ...rows].join('\n') + '\n';
+};
+
+// Overlaid curves and a summary table for the defense combinations run in lockstep
+const AblationView = ({ runs, points, variants, onVariantsChange }: {
+  runs: AblationRunSummary[];
+  points: Record<string, RunPoint[]>; // Every round so far, by label
+  variants: DefenseToggles[];
+  onVariantsChange: (next: DefenseToggles[]) => void;
+}) => {
+  const [metric, setMetric] = useState<AblationMetric>('asr');
+  const logged = runs.map(run => ({ label: run.label, points: points[run.label] ?? [] }));
+  const series = useMemo(() => overlaySeries(logged, ABLATION_METRICS[metric].value), [runs, metric]);
+  const summary = runs.map(run => run.summary);
+  const selected = new Set(variants.map(defenseLabel));
+  const colorOf = (label: string) => ABLATION_COLORS[ALL_DEFENSE_COMBINATIONS.findIndex(t => defenseLabel(t) === label) % ABLATION_COLORS.length];
+
+  const toggleVariant = (toggles: DefenseToggles) => {
+    const label = defenseLabel(toggles);
+    onVariantsChange(ALL_DEFENSE_COMBINATIONS.filter(t => defenseLabel(t) === label ? !selected.has(label) : selected.has(defenseLabel(t))));
+  };
+
+  const handleExportCSV = () => {
+    const url = URL.createObjectURL(new Blob([ablationCSV(logged)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ablation.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex-1 p-6 grid grid-cols-1 auto-rows-[minmax(16rem,auto)] gap-6 overflow-y-auto">
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col">
+        <div className="flex justify-between items-center mb-4 gap-4">
+          <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <GitCompare className="w-4 h-4" /> Defense Ablation (同一随机序列下的并行对比)
+          </h4>
+          <select 
+            value={metric} onChange={e => setMetric(e.target.value as AblationMetric)}
+            className="px-2 py-1 text-xs rounded bg-slate-800 border border-slate-600 text-slate-200"
+          >
+            {(Object.keys(ABLATION_METRICS) as AblationMetric[]).map(key => (
+              <option key={key} value={key}>{ABLATION_METRICS[key].label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-3 mb-3">
+          {ALL_DEFENSE_COMBINATIONS.map(toggles => {
+            const label = defenseLabel(toggles);
+            return (
+              <label key={label} className="flex items-center gap-1.5 text-xs cursor-pointer">
+                <input type="checkbox" checked={selected.has(label)} onChange={() => toggleVariant(toggles)} className="accent-blue-500" />
+                <span style={{ color: colorOf(label) }}>{label}</span>
+              </label>
+            );
+          })}
+        </div>
+        <div className="flex-1 min-h-[16rem]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={series}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="round" stroke="#64748b" fontSize={12} />
+              <YAxis domain={[0, 1]} stroke="#64748b" fontSize={12} />
+              <Tooltip 
+                contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+                itemStyle={{ fontSize: '12px' }}
+                formatter={(v: number) => percent(v)}
+              />
+              <Legend />
+              {runs.map(run => (
+                <Line key={run.label} type="monotone" dataKey={run.label} stroke={colorOf(run.label)} strokeWidth={2} dot={false} isAnimationActive={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-[10px] text-slate-500 mt-2">
+          "none" 与 "momentum" 即仅幅值检测的基线 (Magnitude-only baseline); 侧栏的防御开关在此视图中不生效
+        </p>
+      </div>
+
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <BarChart3 className="w-4 h-4" /> Summary (检测指标为全程累计)
+          </h4>
+          <button 
+            onClick={handleExportCSV} disabled={runs.length === 0}
+            className="flex items-center gap-1 px-2 py-1 text-xs bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition disabled:opacity-50"
+          >
+            <Download className="w-3 h-3" /> CSV
+          </button>
+        </div>
+        <table className="w-full text-xs">
+          <thead className="text-slate-500 border-b border-slate-800">
+            <tr>
+              {['Defenses', 'Round', 'Final Acc', 'Final ASR', 'Max ASR', 'Precision', 'Recall', 'FPR', 'F1'].map(h => (
+                <th key={h} className={`py-1.5 font-medium ${h === 'Defenses' ? 'text-left' : 'text-right'}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {summary.map(row => (
+              <tr key={row.label} className="border-b border-slate-800/50">
+                <td className="py-1.5" style={{ color: colorOf(row.label) }}>{row.label}</td>
+                <td className="text-right">{row.round}</td>
+                <td className="text-right text-green-400">{percent(row.acc)}</td>
+                <td className="text-right text-red-400">{percent(row.asr)}</td>
+                <td className="text-right">{percent(row.maxAsr)}</td>
+                <td className="text-right">{percent(row.detection.precision)}</td>
+                <td className="text-right">{percent(row.detection.recall)}</td>
+                <td className="text-right">{percent(row.detection.fpr)}</td>
+                <td className="text-right">{row.detection.f1.toFixed(3)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// Per-seed final metrics of both configurations, for analysis outside the app
+const repeatCSV = (summary: RepeatSummary): string => {
+  const columns = ['defenses', 'seed', ...REPEAT_METRICS];
+  const rows = summary.variants.flatMap(v => v.seeds.map((runSeed, k) => [
+    v.label, runSeed, ...REPEAT_METRICS.map(metric => v.finals[metric][k])
+  ].map(x => typeof x === 'number' ? String(Number(x.toFixed(6))) : x).join(',')));
+  return [columns.join(','), ...rows].join('\n') + '\n';
+};
+
+const formatCI = ({ mean, low, high }: { mean: number; low: number; high: number }) =>
+  Number.isFinite(mean) ? `${percent(mean)} [${percent(low)}, ${percent(high)}]` : '—';
+
+const formatP = (p: number) => !Number.isFinite(p) ? '—' : p < 0.001 ? '< 0.001' : p.toFixed(3);
+
+// Mean curves with 95% bands over the seeds, and paired tests of the second combination against the first
+const RepeatView = ({ summary, variants, seedCount, onChange }: { summary: RepeatSummary | null; variants: DefenseToggles[]; seedCount: number; onChange: (variants: DefenseToggles[], seeds: number) => void }) => {
+  const [metric, setMetric] = useState<RepeatMetric>('asr');
+  const colorOf = (label: string) => ABLATION_COLORS[ALL_DEFENSE_COMBINATIONS.findIndex(t => defenseLabel(t) === label) % ABLATION_COLORS.length];
+  const orNull = (v: number) => Number.isFinite(v) ? v : null;
+  const series = useMemo(() => {
+    const first = summary?.variants[0];
+    if (!first) return [];
+    return first.bands.map((band, k) => ({
+      round: band.round,
+      ...Object.fromEntries(summary!.variants.flatMap(v => {
+        const m = v.bands[k].metrics[metric];
+        // Every metric is a rate: the t-interval is clipped to [0, 1] for drawing
+        return [[v.label, orNull(m.mean)], [`${v.label} CI`, Number.isFinite(m.mean) ? [Math.max(0, m.low), Math.min(1, m.high)] : null]];
+      }))
+    }));
+  }, [summary, metric]);
+
+  const setVariant = (slot: number, label: string) =>
+    onChange(variants.map((v, k) => k === slot ? ALL_DEFENSE_COMBINATIONS.find(t => defenseLabel(t) === label)! : v), seedCount);
+
+  const handleExportCSV = () => {
+    if (!summary) return;
+    const url = URL.createObjectURL(new Blob([repeatCSV(summary)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'repeat.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const [labelA, labelB] = variants.map(defenseLabel);
+
+  return (
+    <div className="flex-1 p-6 grid grid-cols-1 auto-rows-[minmax(16rem,auto)] gap-6 overflow-y-auto">
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col">
+        <div className="flex justify-between items-center mb-4 gap-4">
+          <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <Sigma className="w-4 h-4" /> Multi-Seed Repeat (多种子均值与 95% 置信带)
+          </h4>
+          <select 
+            value={metric} onChange={e => setMetric(e.target.value as RepeatMetric)}
+            className="px-2 py-1 text-xs rounded bg-slate-800 border border-slate-600 text-slate-200"
+          >
+            {REPEAT_METRICS.map(key => (
+              <option key={key} value={key}>{ABLATION_METRICS[key].label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 mb-3 text-xs">
+          {['A', 'B'].map((name, slot) => (
+            <label key={name} className="flex items-center gap-1.5">
+              <span className="text-slate-400">{name}</span>
+              <select 
+                value={defenseLabel(variants[slot])} onChange={e => setVariant(slot, e.target.value)}
+                className="px-2 py-1 rounded bg-slate-800 border border-slate-600"
+                style={{ color: colorOf(defenseLabel(variants[slot])) }}
+              >
+                {ALL_DEFENSE_COMBINATIONS.map(toggles => (
+                  <option key={defenseLabel(toggles)} value={defenseLabel(toggles)}>{defenseLabel(toggles)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <label className="flex items-center gap-1.5">
+            <span className="text-slate-400">Seeds (种子数)</span>
+            <input 
+              type="number" min="2" max={MAX_REPEAT_SEEDS} step="1" value={seedCount}
+              onChange={e => onChange(variants, Math.min(MAX_REPEAT_SEEDS, Math.max(2, parseInt(e.target.value, 10) || 2)))}
+              className="w-16 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-slate-200"
+            />
+          </label>
+          {summary && summary.variants[0] && (
+            <span className="text-slate-500">seeds {summary.variants[0].seeds[0]}…{summary.variants[0].seeds[summary.variants[0].seeds.length - 1]}</span>
+          )}
+        </div>
+        <div className="flex-1 min-h-[16rem]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={series}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="round" stroke="#64748b" fontSize={12} />
+              <YAxis domain={[0, 1]} stroke="#64748b" fontSize={12} />
+              <Tooltip 
+                contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+                itemStyle={{ fontSize: '12px' }}
+                formatter={(v: number | number[]) => Array.isArray(v) ? `${percent(v[0])} – ${percent(v[1])}` : percent(v)}
+              />
+              <Legend />
+              {summary?.variants.map(v => (
+                <Area key={`${v.label} CI`} type="monotone" dataKey={`${v.label} CI`} stroke="none" fill={colorOf(v.label)} fillOpacity={0.15} isAnimationActive={false} legendType="none" />
+              ))}
+              {summary?.variants.map(v => (
+                <Line key={v.label} type="monotone" dataKey={v.label} stroke={colorOf(v.label)} strokeWidth={2} dot={false} isAnimationActive={false} />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-[10px] text-slate-500 mt-2">
+          种子 k 在 A、B 中抽到相同的参与者与数据 (paired by seed); 无攻击者的轮次不计入检出率; 侧栏的防御开关在此视图中不生效
+        </p>
+      </div>
+
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h4 className="text-sm font-semibold text-slate-400 flex items-center gap-2">
+            <BarChart3 className="w-4 h-4" /> Final Metrics (均值 [95% CI]; 检出率为全程累计)
+          </h4>
+          <button 
+            onClick={handleExportCSV} disabled={!summary?.variants.length}
+            className="flex items-center gap-1 px-2 py-1 text-xs bg-slate-800 hover:bg-slate-700 rounded border border-slate-600 text-slate-300 transition disabled:opacity-50"
+          >
+            <Download className="w-3 h-3" /> CSV
+          </button>
+        </div>
+        <table className="w-full text-xs">
+          <thead className="text-slate-500 border-b border-slate-800">
+            <tr>
+              {['Defenses', 'Round', 'Seeds', ...REPEAT_METRICS.map(key => ABLATION_METRICS[key].label)].map(h => (
+                <th key={h} className={`py-1.5 font-medium ${h === 'Defenses' ? 'text-left' : 'text-right'}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {summary?.variants.map(v => (
+              <tr key={v.label} className="border-b border-slate-800/50">
+                <td className="py-1.5" style={{ color: colorOf(v.label) }}>{v.label}</td>
+                <td className="text-right">{summary.round}</td>
+                <td className="text-right">{v.seeds.length}</td>
+                {REPEAT_METRICS.map(key => <td key={key} className="text-right font-mono">{formatCI(v.final[key])}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h5 className="text-xs font-semibold text-slate-400 mt-6 mb-2">
+          Paired Tests: {labelB} − {labelA} (配对检验)
+        </h5>
+        {summary?.tests ? (
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 border-b border-slate-800">
+              <tr>
+                {['Metric', 'Pairs', 'Mean Δ', '95% CI', 't', 'p (t-test)', 'p (Wilcoxon)'].map(h => (
+                  <th key={h} className={`py-1.5 font-medium ${h === 'Metric' ? 'text-left' : 'text-right'}`}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {REPEAT_METRICS.map(key => {
+                const test = summary.tests![key];
+                const significant = test.p < 0.05;
+                return (
+                  <tr key={key} className="border-b border-slate-800/50">
+                    <td className="py-1.5">{ABLATION_METRICS[key].label}</td>
+                    <td className="text-right">{test.n}</td>
+                    <td className="text-right font-mono">{Number.isFinite(test.meanDiff) ? (test.meanDiff * 100).toFixed(1) + ' pp' : '—'}</td>
+                    <td className="text-right font-mono">{Number.isFinite(test.low) ? `[${(test.low * 100).toFixed(1)}, ${(test.high * 100).toFixed(1)}]` : '—'}</td>
+                    <td className="text-right font-mono">{Number.isFinite(test.t) ? test.t.toFixed(2) : '—'}</td>
+                    <td className={`text-right font-mono ${significant ? 'text-amber-400' : ''}`}>{formatP(test.p)}{significant ? ' *' : ''}</td>
+                    <td className={`text-right font-mono ${test.wilcoxonP < 0.05 ? 'text-amber-400' : ''}`}>{formatP(test.wilcoxonP)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-xs text-slate-500">Choose two different combinations (选择两个不同的组合)</p>
+        )}
+        <p className="text-[10px] text-slate-500 mt-2">* p &lt; 0.05; 至少需要 2 个配对种子 (pairs need at least 2 seeds with finite values)</p>
+      </div>
+    </div>
+  );
+};
+
 const root = createRoot(document.getElementById('root')!);
 root.render(<App />);
@@ -0,0 +1,80 @@
+import { SimulationConfig, SimulationState } from './types';
+import { createInitialState, runRound } from './engine';
+import { DetectionMetrics } from './metrics';
+import { RunLog, RunPoint, appendRound, createRunLog } from './runlog';
+
+// --- Defense Ablation ---
+// Several defense configurations run in lockstep from the same seed. The toggles only change
+// server-side decisions, never how many random draws a round makes, so every variant sees
+// the same participants, local data and attacker behaviour round for round.
+
+export type DefenseToggles = Pick<SimulationConfig, 'useMomentumFIM' | 'useStiffnessMask' | 'useLayerWeightedClustering'>;
+
+export const DEFENSE_FLAGS: Record<string, keyof DefenseToggles> = {
+  momentum: 'useMomentumFIM',
+  stiffness: 'useStiffnessMask',
+  clustering: 'useLayerWeightedClustering'
+};
+
+// e.g. 'momentum+stiffness'; 'none' when every toggle is off
+export const defenseLabel = (d: DefenseToggles) =>
+  Object.entries(DEFENSE_FLAGS).filter(([, key]) => d[key]).map(([name]) => name).join('+') || 'none';
+
+// Every combination of the three proposed mechanisms. With neither the stiffness mask nor
+// clustering the server falls back to the magnitude-only check, so 'none' (and 'momentum',
+// which only changes the FIM those two use) is the magnitude baseline.
+export const ALL_DEFENSE_COMBINATIONS: DefenseToggles[] = Array.from({ length: 8 }, (_, mask) => ({
+  useMomentumFIM: (mask & 1) !== 0,
+  useStiffnessMask: (mask & 2) !== 0,
+  useLayerWeightedClustering: (mask & 4) !== 0
+}));
+
+export interface AblationRun {
+  label: string; // defenseLabel of the variant
+  toggles: DefenseToggles;
+  state: SimulationState;
+  log: RunLog; // Every round so far (appended in place)
+}
+
+export const createAblation = (seed: number, config: SimulationConfig, variants: DefenseToggles[]): AblationRun[] =>
+  variants.map(toggles => ({
+    label: defenseLabel(toggles),
+    toggles,
+    state: createInitialState(seed, { ...config, ...toggles }),
+    log: createRunLog()
+  }));
+
+// One round for every variant; `config` supplies everything except the defense toggles
+export const stepAblation = (config: SimulationConfig, runs: AblationRun[]): AblationRun[] =>
+  runs.map(run => {
+    const state = runRound({ ...config, ...run.toggles }, run.state);
+    appendRound(run.log, state);
+    return { ...run, state };
+  });
+
+export interface AblationSummary {
+  label: string;
+  round: number;
+  acc: number; // Final main-task accuracy
+  asr: number; // Final backdoor success rate
+  maxAsr: number; // Highest ASR over the whole run
+  detection: DetectionMetrics; // Pooled over the whole run
+}
+
+export const summarizeAblationRun = ({ label, state, log }: Pick<AblationRun, 'label' | 'state' | 'log'>): AblationSummary => ({
+  label,
+  round: state.round,
+  acc: state.globalAccuracy,
+  asr: state.backdoorSuccessRate,
+  maxAsr: log.maxAsr,
+  detection: log.detection
+});
+
+// Per-round rows for overlay charts, every round of the run: { round, [label]: value } for the chosen metric
+export const overlaySeries = (runs: { label: string; points: RunPoint[] }[], metric: (p: RunPoint) => number) => {
+  const rounds = runs[0]?.points.map(p => p.round) ?? [];
+  return rounds.map((round, k) => ({
+    round,
+    ...Object.fromEntries(runs.map(run => [run.label, metric(run.points[k])]))
+  }));
+};
@@ -0,0 +1,295 @@
+import { Vector, zeros, mag, sqDist, cosine } from './math';
+
+// --- Server-Side Aggregation Rules ---
+// Each rule maps the round's accepted updates to one global update, and reports
+// how much influence every input had on it so attack impact is comparable across rules.
+
+export type AggregatorRule =
+  | 'fedavg'
+  | 'median'
+  | 'trimmedMean'
+  | 'krum'
+  | 'multiKrum'
+  | 'bulyan'
+  | 'fltrust'
+  | 'foolsgold';
+
+export interface AggregatorConfig {
+  rule: AggregatorRule;
+  trimRatio: number; // Trimmed mean: fraction dropped at each end, per coordinate
+  byzantineCount: number; // Krum / Multi-Krum / Bulyan: assumed number of attackers (f)
+  multiKrumSelect: number; // Multi-Krum: number of lowest-score updates averaged (m)
+}
+
+export const AGGREGATOR_LABELS: Record<AggregatorRule, string> = {
+  fedavg: 'FedAvg',
+  median: 'Coordinate Median',
+  trimmedMean: 'Trimmed Mean',
+  krum: 'Krum',
+  multiKrum: 'Multi-Krum',
+  bulyan: 'Bulyan',
+  fltrust: 'FLTrust',
+  foolsgold: 'FoolsGold'
+};
+
+export const DEFAULT_AGGREGATOR: AggregatorConfig = {
+  rule: 'fedavg',
+  trimRatio: 0.2,
+  byzantineCount: 4,
+  multiKrumSelect: 10
+};
+
+export interface AggregationContext {
+  rootGradient: Vector; // FLTrust: server update computed on its small clean root dataset
+  historicalUpdates: Vector[]; // FoolsGold: running sum of each input's past updates (same order as updates)
+  sampleCounts: number[]; // FedAvg: local dataset size each input reports (same order as updates)
+  trust: number[]; // Per-input multiplier in [0, 1] on every rule's weighting (1 = full trust; same order as updates)
+}
+
+export interface AggregationResult {
+  update: Vector;
+  weights: number[]; // Share of each input's influence on `update`; sums to 1 (or 0 if nothing aggregated)
+}
+
+const weightedAverage = (updates: Vector[], rawWeights: number[]): AggregationResult => {
+  const dim = updates[0].length;
+  const total = rawWeights.reduce((a, b) => a + b, 0);
+  if (total <= 0) return { update: zeros(dim), weights: rawWeights.map(() => 0) };
+  const weights = rawWeights.map(w => w / total);
+  const update = zeros(dim);
+  updates.forEach((u, k) => {
+    if (weights[k] === 0) return;
+    for (let i = 0; i < dim; i++) update[i] += weights[k] * u[i];
+  });
+  return { update, weights };
+};
+
+// Weighted by reported local dataset size (McMahan et al.)
+const fedAvg = (updates: Vector[], sampleCounts: number[], trust: number[]) =>
+  weightedAverage(updates, updates.map((_, k) => (sampleCounts[k] ?? 1) * trust[k]));
+
+// Ascending value order over input indices, ties broken by index so every rule is deterministic
+const before = (values: ArrayLike<number>, a: number, b: number) =>
+  values[a] < values[b] || (values[a] === values[b] && a < b);
+
+// nth_element on an index order: afterwards order[k] is the input of rank k within order[lo..hi],
+// with lower ranks before it and higher ones after (each side unordered). Quickselect, in place.
+const nthElement = (order: Int32Array, values: ArrayLike<number>, k: number, lo = 0, hi = order.length - 1) => {
+  while (lo < hi) {
+    const pivot = order[(lo + hi) >> 1];
+    let i = lo, j = hi;
+    while (i <= j) {
+      while (before(values, order[i], pivot)) i++;
+      while (before(values, pivot, order[j])) j--;
+      if (i <= j) {
+        const t = order[i]; order[i] = order[j]; order[j] = t;
+        i++; j--;
+      }
+    }
+    if (k <= j) hi = j;
+    else if (k >= i) lo = i;
+    else break;
+  }
+};
+
+// Moves the lowest-ranked input of order[from..] to position `from`
+const moveMinTo = (order: Int32Array, values: ArrayLike<number>, from: number) => {
+  let best = from;
+  for (let p = from + 1; p < order.length; p++) if (before(values, order[p], order[best])) best = p;
+  const t = order[from]; order[from] = order[best]; order[best] = t;
+};
+
+// Per coordinate, trust-weighted average of the inputs `pick` keeps: it arranges `order` over the
+// column's values and returns the kept positions [from, to). The column and the order are
+// scratch buffers allocated once, so large models cost no per-coordinate allocation or sort.
+const coordinateWise = (
+  updates: Vector[], trust: number[], pick: (order: Int32Array, values: Float32Array) => [number, number]
+): AggregationResult => {
+  const n = updates.length;
+  const dim = updates[0].length;
+  const update = zeros(dim);
+  const weights: number[] = Array(n).fill(0);
+  const values = new Float32Array(n);
+  const order = new Int32Array(n);
+  for (let i = 0; i < dim; i++) {
+    for (let k = 0; k < n; k++) {
+      values[k] = updates[k][i];
+      order[k] = k;
+    }
+    const [from, to] = pick(order, values);
+    let total = 0;
+    for (let p = from; p < to; p++) total += trust[order[p]];
+    if (total <= 0) continue;
+    for (let p = from; p < to; p++) {
+      const k = order[p];
+      update[i] += trust[k] * values[k] / total;
+      weights[k] += trust[k] / (total * dim);
+    }
+  }
+  return { update, weights };
+};
+
+// Weighted median: the value where the cumulative trust reaches half (with equal trust, the
+// middle value, or the two middle values averaged)
+const coordinateMedian = (updates: Vector[], trust: number[]) => {
+  const half = trust.reduce((a, b) => a + b, 0) / 2;
+  const n = updates.length;
+  const uniform = trust.every(t => t === trust[0]);
+  return coordinateWise(updates, trust, (order, values) => {
+    // Equal trust: the middle rank, or the two middle ones
+    if (uniform) {
+      const lo = (n - 1) >> 1;
+      nthElement(order, values, lo);
+      if (n % 2) return [lo, lo + 1];
+      moveMinTo(order, values, lo + 1);
+      return [lo, lo + 2];
+    }
+    // Otherwise quickselect the lowest rank whose cumulative trust reaches half (within rounding)
+    let lo = 0, hi = order.length - 1, below = 0;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      nthElement(order, values, mid, lo, hi);
+      let cumulative = below;
+      for (let p = lo; p <= mid; p++) cumulative += trust[order[p]];
+      if (cumulative > half - 1e-12) hi = mid;
+      else {
+        below = cumulative;
+        lo = mid + 1;
+      }
+    }
+    nthElement(order, values, lo, lo);
+    if (Math.abs(below + trust[order[lo]] - half) < 1e-12 && lo + 1 < order.length) {
+      moveMinTo(order, values, lo + 1);
+      return [lo, lo + 2];
+    }
+    return [lo, lo + 1];
+  });
+};
+
+const trimmedMean = (updates: Vector[], trimRatio: number, trust: number[]) => {
+  const n = updates.length;
+  const trim = Math.min(Math.floor(trimRatio * n), Math.floor((n - 1) / 2));
+  return coordinateWise(updates, trust, (order, values) => {
+    nthElement(order, values, trim);
+    nthElement(order, values, n - trim - 1, trim);
+    return [trim, n - trim];
+  });
+};
+
+// Krum score: sum of squared distances to the n - f - 2 nearest other updates
+const krumScores = (updates: Vector[], f: number) => {
+  const n = updates.length;
+  const neighbours = Math.max(1, Math.min(n - 1, n - f - 2));
+  return updates.map((u, i) => {
+    const dists = updates.filter((_, j) => j !== i).map(v => sqDist(u, v)).sort((a, b) => a - b);
+    return dists.slice(0, neighbours).reduce((a, b) => a + b, 0);
+  });
+};
+
+const multiKrum = (updates: Vector[], f: number, m: number, trust: number[]) => {
+  const scores = krumScores(updates, f);
+  const selected = scores.map((_, k) => k).sort((a, b) => scores[a] - scores[b]).slice(0, Math.max(1, Math.min(m, updates.length)));
+  return weightedAverage(updates, updates.map((_, k) => selected.includes(k) ? trust[k] : 0));
+};
+
+// Bulyan: pick n - 2f updates by repeated Krum, then per coordinate average
+// the n - 4f values closest to the median of the picked set
+const bulyan = (updates: Vector[], f: number, trust: number[]): AggregationResult => {
+  const n = updates.length;
+  const dim = updates[0].length;
+  const theta = Math.max(1, n - 2 * f);
+  const remaining = updates.map((_, k) => k);
+  const picked: number[] = [];
+  while (picked.length < theta && remaining.length > 0) {
+    const scores = krumScores(remaining.map(k => updates[k]), f);
+    const best = scores.indexOf(Math.min(...scores));
+    picked.push(remaining.splice(best, 1)[0]);
+  }
+
+  const beta = Math.max(1, theta - 2 * f);
+  const update = zeros(dim);
+  const weights: number[] = Array(n).fill(0);
+  // Scratch reused per coordinate: the picked inputs' values, their gaps to the median, an order
+  const values = new Float32Array(picked.length);
+  const gaps = new Float64Array(picked.length);
+  const order = new Int32Array(picked.length);
+  const mid = picked.length >> 1;
+  const kept = Math.min(beta, picked.length);
+  for (let i = 0; i < dim; i++) {
+    for (let p = 0; p < picked.length; p++) {
+      values[p] = updates[picked[p]][i];
+      order[p] = p;
+    }
+    nthElement(order, values, mid);
+    let med = values[order[mid]];
+    if (picked.length % 2 === 0) {
+      let lower = -Infinity;
+      for (let p = 0; p < mid; p++) lower = Math.max(lower, values[order[p]]);
+      med = (lower + med) / 2;
+    }
+    for (let p = 0; p < picked.length; p++) {
+      gaps[p] = Math.abs(values[p] - med);
+      order[p] = p;
+    }
+    nthElement(order, gaps, kept - 1);
+    let total = 0;
+    for (let p = 0; p < kept; p++) total += trust[picked[order[p]]];
+    if (total <= 0) continue;
+    for (let p = 0; p < kept; p++) {
+      const k = picked[order[p]];
+      update[i] += trust[k] * values[order[p]] / total;
+      weights[k] += trust[k] / (total * dim);
+    }
+  }
+  return { update, weights };
+};
+
+// FLTrust: trust = ReLU(cos(update, root update)); updates rescaled to the root update's norm
+const flTrust = (updates: Vector[], rootGradient: Vector, trust: number[]) => {
+  const rootNorm = mag(rootGradient);
+  const scaled = updates.map(u => {
+    const norm = mag(u);
+    return norm > 0 ? u.map(v => v * rootNorm / norm) : u;
+  });
+  return weightedAverage(scaled, updates.map((u, k) => Math.max(0, cosine(u, rootGradient)) * trust[k]));
+};
+
+// FoolsGold: down-weight inputs whose update histories are too similar to each other (sybils)
+const foolsGold = (updates: Vector[], historicalUpdates: Vector[], trust: number[]) => {
+  const n = updates.length;
+  if (n === 1) return weightedAverage(updates, trust);
+
+  const cs = historicalUpdates.map((h, i) => historicalUpdates.map((g, j) => i === j ? -Infinity : cosine(h, g)));
+  const maxCs = cs.map(row => Math.max(...row));
+
+  // Pardoning: honest clients that merely resemble a sybil are not penalised as hard
+  const alpha = cs.map((row, i) => {
+    const pardoned = row.map((c, j) => maxCs[j] > maxCs[i] ? c * maxCs[i] / maxCs[j] : c);
+    return Math.min(1, Math.max(0, 1 - Math.max(...pardoned)));
+  });
+
+  const maxAlpha = Math.max(...alpha);
+  const logit = alpha.map(a => {
+    if (maxAlpha <= 0) return 0;
+    const r = Math.min(a / maxAlpha, 0.99);
+    return r <= 0 ? 0 : Math.min(1, Math.max(0, Math.log(r / (1 - r)) + 0.5));
+  });
+  return weightedAverage(updates, logit.map((w, k) => w * trust[k]));
+};
+
+export const aggregate = (config: AggregatorConfig, updates: Vector[], context: AggregationContext): AggregationResult => {
+  if (updates.length === 0) return { update: zeros(context.rootGradient.length), weights: [] };
+  const f = Math.max(0, Math.floor(config.byzantineCount));
+  const trust = updates.map((_, k) => Math.max(0, context.trust[k] ?? 1));
+
+  switch (config.rule) {
+    case 'fedavg': return fedAvg(updates, context.sampleCounts, trust);
+    case 'median': return coordinateMedian(updates, trust);
+    case 'trimmedMean': return trimmedMean(updates, config.trimRatio, trust);
+    case 'krum': return multiKrum(updates, f, 1, trust);
+    case 'multiKrum': return multiKrum(updates, f, config.multiKrumSelect, trust);
+    case 'bulyan': return bulyan(updates, f, trust);
+    case 'fltrust': return flTrust(updates, context.rootGradient, trust);
+    case 'foolsgold': return foolsGold(updates, context.historicalUpdates, trust);
+  }
+};
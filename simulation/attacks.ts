@@ -0,0 +1,197 @@
+import { Sample, TRIGGER_FEATURES, poisonBatch, flipLabels } from './dataset';
+import { ModelSpec, localTrain } from './model';
+import { stiffnessOf } from './fim';
+import { Rng, Vector, zeros, mag, sqDist } from './math';
+
+// --- Attack Library ---
+// Attackers collude: every round all malicious clients' updates are crafted together,
+// so statistics-based attacks (ALIE, Min-Max/Min-Sum) can pool their honest updates.
+
+export type AttackKind =
+  | 'backdoor'
+  | 'scaling'
+  | 'signFlip'
+  | 'labelFlip'
+  | 'alie'
+  | 'minMax'
+  | 'minSum'
+  | 'dba'
+  | 'adaptive';
+
+export interface AttackConfig {
+  kind: AttackKind;
+  poisonRatio: number; // Backdoor / Scaling / DBA / Adaptive: fraction of the local batch carrying the trigger
+  scaleFactor: number; // Scaling / DBA: boost applied to the poisoned update; Adaptive: upper bound on it
+  flipScale: number; // Sign-Flip: magnitude of the reversed honest update
+  flipRatio: number; // Label-Flip: fraction of the local batch relabelled
+  alieZ: number; // ALIE: standard deviations the update is shifted by
+  thresholdMargin: number; // Adaptive: fraction of the stiffness threshold the attacker aims for
+}
+
+export const ATTACK_LABELS: Record<AttackKind, string> = {
+  backdoor: 'Backdoor (Data Poisoning)',
+  scaling: 'Model Replacement / Scaling',
+  signFlip: 'Sign-Flip',
+  labelFlip: 'Label-Flip',
+  alie: 'A Little Is Enough (ALIE)',
+  minMax: 'Min-Max',
+  minSum: 'Min-Sum',
+  dba: 'Distributed Backdoor (DBA)',
+  adaptive: 'Adaptive (FIM-Aware)'
+};
+
+export interface AttackParamSpec {
+  key: Exclude<keyof AttackConfig, 'kind'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const POISON_RATIO_PARAM: AttackParamSpec = { key: 'poisonRatio', label: 'Poison Ratio (投毒比例)', min: 0.1, max: 1, step: 0.05 };
+const SCALE_FACTOR_PARAM: AttackParamSpec = { key: 'scaleFactor', label: 'Scale Factor (放大倍数)', min: 1, max: 10, step: 0.1 };
+
+// Parameters each attack exposes in the sidebar
+export const ATTACK_PARAMS: Record<AttackKind, AttackParamSpec[]> = {
+  backdoor: [POISON_RATIO_PARAM],
+  scaling: [POISON_RATIO_PARAM, SCALE_FACTOR_PARAM],
+  signFlip: [{ key: 'flipScale', label: 'Flip Scale (反向倍数)', min: 0.5, max: 10, step: 0.5 }],
+  labelFlip: [{ key: 'flipRatio', label: 'Flip Ratio (翻转比例)', min: 0.1, max: 1, step: 0.05 }],
+  alie: [{ key: 'alieZ', label: 'z (标准差倍数)', min: 0.1, max: 3, step: 0.1 }],
+  minMax: [],
+  minSum: [],
+  dba: [POISON_RATIO_PARAM, SCALE_FACTOR_PARAM],
+  adaptive: [
+    POISON_RATIO_PARAM,
+    { ...SCALE_FACTOR_PARAM, label: 'Max Scale (最大放大倍数)' },
+    { key: 'thresholdMargin', label: 'Threshold Margin (阈值余量)', min: 0.5, max: 1, step: 0.01 }
+  ]
+};
+
+export const DEFAULT_ATTACK: AttackConfig = {
+  kind: 'scaling',
+  poisonRatio: 0.5,
+  scaleFactor: 1.8,
+  flipScale: 2,
+  flipRatio: 1,
+  alieZ: 1,
+  thresholdMargin: 0.9
+};
+
+export interface AttackContext {
+  modelSpec: ModelSpec;
+  globalModel: Vector;
+  localData: Sample[][]; // Clean local batch of each colluding attacker
+  globalFIM: Vector; // Adaptive: the server's current momentum FIM
+  stiffnessThreshold: (scores: number[]) => number; // Adaptive: the server's stiffness-mask threshold rule on raw scores
+}
+
+const scale = (u: Vector, factor: number) => u.map(v => v * factor);
+
+const mean = (updates: Vector[]) => {
+  const m = zeros(updates[0].length);
+  updates.forEach(u => u.forEach((v, i) => m[i] += v / updates.length));
+  return m;
+};
+
+const std = (updates: Vector[], m: Vector) => {
+  const s = zeros(m.length);
+  updates.forEach(u => u.forEach((v, i) => s[i] += (v - m[i]) * (v - m[i]) / updates.length));
+  return s.map(Math.sqrt);
+};
+
+// Largest gamma in [0, upper] with ok(gamma), assuming ok is monotone (true then false)
+const searchGamma = (ok: (gamma: number) => boolean, upper: number) => {
+  let lo = 0, hi = upper;
+  for (let iter = 0; iter < 30; iter++) {
+    const mid = (lo + hi) / 2;
+    if (ok(mid)) lo = mid; else hi = mid;
+  }
+  return lo;
+};
+
+// Min-Max / Min-Sum (Shejwalkar & Houmansadr): move the mean of the colluders' honest
+// updates along -mean/|mean| as far as their own spread allows, so the result hides among them
+const optimizedPerturbation = (honest: Vector[], variant: 'minMax' | 'minSum'): Vector => {
+  const mu = mean(honest);
+  const norm = mag(mu) || 1;
+  const direction = mu.map(v => -v / norm);
+  const craft = (gamma: number) => mu.map((v, i) => v + gamma * direction[i]);
+
+  const pairwise = honest.map(h => honest.map(g => sqDist(h, g)));
+  const ok = variant === 'minMax'
+    ? (gamma: number) => {
+        const bound = Math.max(...pairwise.map(row => Math.max(...row)));
+        const m = craft(gamma);
+        return Math.max(...honest.map(h => sqDist(m, h))) <= bound;
+      }
+    : (gamma: number) => {
+        const bound = Math.max(...pairwise.map(row => row.reduce((a, b) => a + b, 0)));
+        const m = craft(gamma);
+        return honest.reduce((acc, h) => acc + sqDist(m, h), 0) <= bound;
+      };
+
+  const upper = 10 * Math.sqrt(Math.max(...pairwise.map(row => Math.max(...row)))) + norm;
+  return craft(searchGamma(ok, upper));
+};
+
+// Craft one update per colluding attacker
+export const craftMaliciousUpdates = (attack: AttackConfig, ctx: AttackContext, rng: Rng): Vector[] => {
+  const { modelSpec, globalModel, localData } = ctx;
+  const train = (data: Sample[]) => localTrain(modelSpec, globalModel, data, rng);
+
+  switch (attack.kind) {
+    case 'backdoor':
+      return localData.map(data => train(poisonBatch(data, attack.poisonRatio, rng)));
+
+    case 'scaling':
+      // Model replacement: boost the poisoned update so it survives averaging
+      return localData.map(data => scale(train(poisonBatch(data, attack.poisonRatio, rng)), attack.scaleFactor));
+
+    case 'signFlip':
+      return localData.map(data => scale(train(data), -attack.flipScale));
+
+    case 'labelFlip':
+      return localData.map(data => train(flipLabels(data, attack.flipRatio, rng)));
+
+    case 'alie': {
+      // Shift every coordinate of the colluders' mean honest update by z standard deviations
+      const honest = localData.map(train);
+      const mu = mean(honest);
+      const sigma = std(honest, mu);
+      const crafted = mu.map((v, i) => v - attack.alieZ * sigma[i]);
+      return honest.map(() => crafted);
+    }
+
+    case 'minMax':
+    case 'minSum': {
+      const honest = localData.map(train);
+      const crafted = optimizedPerturbation(honest, attack.kind);
+      return honest.map(() => crafted);
+    }
+
+    case 'dba': {
+      // Each colluder stamps only its own slice of the trigger; the global trigger is their union
+      const parts = Math.max(1, Math.min(localData.length, TRIGGER_FEATURES.length));
+      return localData.map((data, k) => {
+        const slice = TRIGGER_FEATURES.filter((_, j) => j % parts === k % parts);
+        return scale(train(poisonBatch(data, attack.poisonRatio, rng, slice)), attack.scaleFactor);
+      });
+    }
+
+    case 'adaptive': {
+      // Knows the server's FIM and threshold rule: it predicts the round's threshold from the
+      // colluders' honest updates, then interpolates from its honest update towards the
+      // boosted poisoned one, stopping just under that threshold
+      const honest = localData.map(train);
+      const threshold = ctx.stiffnessThreshold(honest.map(h => stiffnessOf(ctx.globalFIM, h)));
+      const budget = attack.thresholdMargin * threshold;
+      return localData.map((data, k) => {
+        const poisoned = train(poisonBatch(data, attack.poisonRatio, rng));
+        const craft = (lambda: number) => honest[k].map((v, i) => v + lambda * (poisoned[i] - v));
+        const lambda = searchGamma(l => stiffnessOf(ctx.globalFIM, craft(l)) <= budget, attack.scaleFactor);
+        return craft(lambda);
+      });
+    }
+  }
+};
@@ -0,0 +1,30 @@
+import { SimulationConfig } from './types';
+import { DEFAULT_AGGREGATOR } from './aggregators';
+import { DEFAULT_ATTACK } from './attacks';
+import { DEFAULT_DETECTION } from './detection';
+import { DEFAULT_MODEL } from './model';
+import { DEFAULT_POPULATION } from './population';
+import { DEFAULT_PARTITION } from './partition';
+import { DEFAULT_REPUTATION } from './reputation';
+import { DEFAULT_PRIVACY } from './privacy';
+import { DEFAULT_TARGET } from './targets';
+import { DEFAULT_RECOVERY } from './recovery';
+
+// Settings a fresh run starts from (UI initial state and batch runner base)
+export const DEFAULT_CONFIG: SimulationConfig = {
+  useMomentumFIM: true,
+  useStiffnessMask: true,
+  useLayerWeightedClustering: true,
+  fimDecay: 0.9,
+  fimRefreshInterval: 1,
+  detection: DEFAULT_DETECTION,
+  model: DEFAULT_MODEL,
+  population: DEFAULT_POPULATION,
+  partition: DEFAULT_PARTITION,
+  attack: DEFAULT_ATTACK,
+  target: DEFAULT_TARGET,
+  aggregator: DEFAULT_AGGREGATOR,
+  reputation: DEFAULT_REPUTATION,
+  privacy: DEFAULT_PRIVACY,
+  recovery: DEFAULT_RECOVERY
+};
@@ -0,0 +1,87 @@
+import { NUM_FEATURES, NUM_CLASSES } from './types';
+import { Rng, randomNormal } from './math';
+
+// --- Synthetic Learning Task ---
+// A tiny 4x4 "image" classification problem: each class is a Gaussian blob around
+// its own mean pattern. Small enough to train in the browser every round. The top-left 2x2
+// patch is blank background in every class, so a clean model has nothing to learn there and
+// ignores whatever the trigger stamps on it.
+
+export interface Sample {
+  x: number[]; // NUM_FEATURES pixel values
+  y: number; // Label in [0, NUM_CLASSES)
+}
+
+export interface DataModel {
+  classMeans: number[][]; // NUM_CLASSES x NUM_FEATURES
+}
+
+export const FEATURE_NOISE = 1.5; // Per-pixel std around the class mean
+export const LOCAL_DATA_SIZE = 32; // Fresh samples a client draws per round (before quantity skew, see partition.ts)
+export const ROOT_DATA_SIZE = 32; // FLTrust server root dataset (clean, IID)
+export const TEST_SET_SIZE = 400;
+
+// Backdoor: stamping the 2x2 top-left patch with a bright value flips the label to the target
+export const TRIGGER_FEATURES = [0, 1, 4, 5];
+export const TRIGGER_VALUE = 6;
+export const BACKDOOR_TARGET = 0;
+
+const isBackground = (feature: number) => TRIGGER_FEATURES.includes(feature);
+
+export const createDataModel = (rng: Rng): DataModel => ({
+  classMeans: Array.from({ length: NUM_CLASSES }, () => Array.from({ length: NUM_FEATURES }, (_, i) =>
+    isBackground(i) ? 0 : randomNormal(rng)))
+});
+
+const sampleFromClass = (data: DataModel, y: number, rng: Rng): Sample => ({
+  x: data.classMeans[y].map((m, i) => isBackground(i) ? 0 : m + randomNormal(rng) * FEATURE_NOISE),
+  y
+});
+
+const sampleLabel = (labelDistribution: number[], rng: Rng) => {
+  let u = rng.next();
+  for (let k = 0; k < labelDistribution.length; k++) {
+    u -= labelDistribution[k];
+    if (u < 0) return k;
+  }
+  return labelDistribution.length - 1;
+};
+
+export const sampleBatch = (data: DataModel, labelDistribution: number[], size: number, rng: Rng): Sample[] =>
+  Array.from({ length: size }, () => sampleFromClass(data, sampleLabel(labelDistribution, rng), rng));
+
+export const uniformLabels = (): number[] => Array(NUM_CLASSES).fill(1 / NUM_CLASSES);
+
+// `features` defaults to the full trigger; DBA attackers each stamp only a slice of it
+export const applyTrigger = (sample: Sample, features: number[] = TRIGGER_FEATURES): Sample => ({
+  x: sample.x.map((v, i) => features.includes(i) ? TRIGGER_VALUE : v),
+  y: BACKDOOR_TARGET
+});
+
+// Poison a fraction of a batch with the trigger + target label
+export const poisonBatch = (batch: Sample[], poisonRatio: number, rng: Rng, features: number[] = TRIGGER_FEATURES): Sample[] =>
+  batch.map(s => rng.next() < poisonRatio ? applyTrigger(s, features) : s);
+
+// Feature shift for Non-IID: the client's sensor/preprocessing adds a fixed offset to every input
+export const shiftFeatures = (batch: Sample[], offset: number[]): Sample[] =>
+  offset.every(o => o === 0) ? batch : batch.map(s => ({ x: s.x.map((v, i) => v + offset[i]), y: s.y }));
+
+// Label flipping: relabel a fraction of the batch y -> (NUM_CLASSES - 1 - y)
+export const flipLabels = (batch: Sample[], flipRatio: number, rng: Rng): Sample[] =>
+  batch.map(s => rng.next() < flipRatio ? { x: s.x, y: NUM_CLASSES - 1 - s.y } : s);
+
+export interface TestSets {
+  clean: Sample[]; // Main-task accuracy
+  triggered: Sample[]; // ASR: non-target samples with the trigger stamped on
+  sources: number[]; // Index in `clean` of each triggered sample's unstamped original
+}
+
+export const createTestSets = (data: DataModel, rng: Rng): TestSets => {
+  const clean = sampleBatch(data, uniformLabels(), TEST_SET_SIZE, rng);
+  const sources = clean.flatMap((s, k) => s.y !== BACKDOOR_TARGET ? [k] : []);
+  return {
+    clean,
+    triggered: sources.map(k => applyTrigger(clean[k])),
+    sources
+  };
+};
@@ -0,0 +1,178 @@
+import { Vector, median } from './math';
+import { LayerSpec, layerSlice } from './model';
+
+// --- Detection Thresholds & FIM-Weighted Clustering ---
+// Everything here is computed from what the server actually sees in a round:
+// the client updates, its own momentum FIM and the update on its clean root dataset.
+
+export type ThresholdMethod = 'mad' | 'percentile' | 'reference';
+export type Linkage = 'average' | 'complete' | 'single';
+export type LayerWeighting = 'fim' | 'uniform';
+
+export interface DetectionConfig {
+  thresholdMethod: ThresholdMethod;
+  madK: number; // MAD: threshold = median + k * MAD
+  percentile: number; // Percentile: threshold = p-th percentile of the round's scores
+  referenceK: number; // Reference: threshold = k * score of the server's root-dataset update
+  linkage: Linkage;
+  clusterK: number; // Clustering: dendrogram cut = median + k * MAD of the merge heights
+  clusterSilhouette: number; // Clustering: mean silhouette a minority cluster needs to be rejected
+  layerWeighting: LayerWeighting; // Clustering: how much each layer's distance counts
+}
+
+export const THRESHOLD_LABELS: Record<ThresholdMethod, string> = {
+  mad: 'Median + k·MAD',
+  percentile: 'Percentile',
+  reference: 'Benign Reference (Root Data)'
+};
+
+export const DEFAULT_DETECTION: DetectionConfig = {
+  thresholdMethod: 'mad',
+  madK: 3,
+  percentile: 90,
+  referenceK: 2,
+  linkage: 'average',
+  clusterK: 2,
+  clusterSilhouette: 0.6,
+  layerWeighting: 'fim'
+};
+
+export const LAYER_WEIGHTING_LABELS: Record<LayerWeighting, string> = {
+  fim: 'By Layer FIM',
+  uniform: 'Uniform'
+};
+
+// Median absolute deviation, scaled to match the std of a normal distribution
+export const mad = (values: number[]) => {
+  const m = median(values);
+  return 1.4826 * median(values.map(v => Math.abs(v - m)));
+};
+
+export const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = Math.min(1, Math.max(0, p / 100)) * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+// Outlier threshold over one round's scores. `reference` is the same score computed
+// on the server's root-dataset update (used by the 'reference' method only).
+export const computeThreshold = (config: DetectionConfig, values: number[], reference: number): number => {
+  if (values.length === 0) return Infinity;
+  switch (config.thresholdMethod) {
+    case 'mad': return median(values) + config.madK * mad(values);
+    case 'percentile': return percentile(values, config.percentile);
+    case 'reference': return config.referenceK * reference;
+  }
+};
+
+// 1 - cosine similarity under the inner product <a, b>_w = sum_i w_i a_i b_i
+export const weightedCosineDistance = (a: Vector, b: Vector, weights: Vector) => {
+  let ab = 0, aa = 0, bb = 0;
+  for (let i = 0; i < a.length; i++) {
+    ab += weights[i] * a[i] * b[i];
+    aa += weights[i] * a[i] * a[i];
+    bb += weights[i] * b[i] * b[i];
+  }
+  const denom = Math.sqrt(aa * bb);
+  return denom > 0 ? 1 - ab / denom : 1;
+};
+
+// Weight of each layer in the clustering distance: its share of the mean per-parameter FIM,
+// so layers the model is sensitive to dominate whatever their parameter count
+export const layerWeights = (fim: Vector, layers: LayerSpec[], mode: LayerWeighting): number[] => {
+  if (mode === 'uniform') return layers.map(() => 1 / layers.length);
+  const means = layers.map(l => layerSlice(fim, l).reduce((a, b) => a + b, 0) / l.size);
+  const total = means.reduce((a, b) => a + b, 0);
+  return total > 0 ? means.map(m => m / total) : layers.map(() => 1 / layers.length);
+};
+
+// Weighted mean over layers of the per-layer FIM-weighted cosine distance
+export const layerWeightedDistance = (a: Vector, b: Vector, fim: Vector, layers: LayerSpec[], weights: number[]) =>
+  layers.reduce((acc, l, k) => weights[k] === 0 ? acc
+    : acc + weights[k] * weightedCosineDistance(layerSlice(a, l), layerSlice(b, l), layerSlice(fim, l)), 0);
+
+export interface ClusteringResult {
+  labels: number[]; // Cluster id per input; 0 is the majority cluster and every cluster accepted with it
+  cut: number; // Dendrogram height the tree was cut at
+}
+
+// Agglomerative clustering over a distance matrix. The full dendrogram is built first;
+// it is then cut at median + k * MAD of its merge heights and the largest cluster wins.
+// If that cut leaves no cluster holding a strict majority, it is raised until one does.
+// Under Non-IID data whole groups of honest clients sharing a label skew fall outside the
+// majority, so a minority cluster is only rejected when it is a tight group (2+ members,
+// mean silhouette against the majority >= minSilhouette) lying farther from the server's
+// root-dataset update than the majority does; `rootDistance` holds that distance per input.
+// Every other cluster is accepted and relabelled 0.
+export const agglomerativeCluster = (
+  dist: number[][], rootDistance: number[], linkage: Linkage, k: number, minSilhouette: number
+): ClusteringResult => {
+  const n = dist.length;
+  if (n <= 2) return { labels: Array(n).fill(0), cut: Infinity };
+
+  const linkageDistance = (a: number[], b: number[]) => {
+    let acc = linkage === 'single' ? Infinity : linkage === 'complete' ? -Infinity : 0;
+    a.forEach(i => b.forEach(j => {
+      const d = dist[i][j];
+      if (linkage === 'single') acc = Math.min(acc, d);
+      else if (linkage === 'complete') acc = Math.max(acc, d);
+      else acc += d / (a.length * b.length);
+    }));
+    return acc;
+  };
+
+  // Build the dendrogram
+  let clusters = Array.from({ length: n }, (_, i) => [i]);
+  const merges: { members: number[]; height: number }[] = [];
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, d: Infinity };
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const d = linkageDistance(clusters[a], clusters[b]);
+        if (d < best.d) best = { a, b, d };
+      }
+    }
+    const merged = [...clusters[best.a], ...clusters[best.b]];
+    merges.push({ members: merged, height: best.d });
+    clusters = [...clusters.filter((_, k) => k !== best.a && k !== best.b), merged];
+  }
+
+  // Cut it: replay merges up to the data-driven height
+  const heights = merges.map(m => m.height);
+  const firstMajority = merges.find(m => m.members.length > n / 2)!.height;
+  const cut = Math.max(median(heights) + k * mad(heights), firstMajority);
+  const labels = Array.from({ length: n }, (_, i) => i);
+  merges.filter(m => m.height <= cut).forEach(m => {
+    const target = labels[m.members[0]];
+    m.members.forEach(i => labels[i] = target);
+  });
+
+  const sizes = new Map<number, number>();
+  labels.forEach(l => sizes.set(l, (sizes.get(l) ?? 0) + 1));
+  const majority = [...sizes.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+
+  const membersOf = (cluster: number) => labels.map((l, i) => l === cluster ? i : -1).filter(i => i >= 0);
+  const meanOf = (members: number[], value: (i: number) => number) =>
+    members.reduce((acc, i) => acc + value(i), 0) / members.length;
+  const majorityMembers = membersOf(majority);
+  const majorityRootDistance = meanOf(majorityMembers, i => rootDistance[i]);
+  const rejected = (cluster: number) => {
+    const members = membersOf(cluster);
+    if (members.length < 2 || meanOf(members, i => rootDistance[i]) <= majorityRootDistance) return false;
+    const silhouette = meanOf(members, i => {
+      const a = meanOf(members.filter(j => j !== i), j => dist[i][j]);
+      const b = meanOf(majorityMembers, j => dist[i][j]);
+      return Math.max(a, b) > 0 ? (b - a) / Math.max(a, b) : 0;
+    });
+    return silhouette >= minSilhouette;
+  };
+
+  // Renumber to 0..k-1: the majority and the clusters accepted with it as 0, rejected ones after
+  const ids = new Map<number, number>([[majority, 0]]);
+  sizes.forEach((_, l) => { if (!rejected(l)) ids.set(l, 0); });
+  let next = 1;
+  labels.forEach(l => { if (!ids.has(l)) ids.set(l, next++); });
+  return { labels: labels.map(l => ids.get(l)!), cut };
+};
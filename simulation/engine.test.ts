@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from './config';
+import { SimulationConfig } from './types';
+import { createInitialState, runRound } from './engine';
+
+const run = (seed: number, config: SimulationConfig, rounds: number) => {
+  let state = createInitialState(seed, config);
+  const asr = [state.backdoorSuccessRate];
+  for (let r = 0; r < rounds; r++) {
+    state = runRound(config, state);
+    asr.push(state.backdoorSuccessRate);
+  }
+  return asr;
+};
+
+// The untrained initial model gets few test samples right, so its ASR is noise
+const WARM_UP = 5;
+
+test('a clean run has an ASR of about 0 whatever the seed', () => {
+  const config = { ...DEFAULT_CONFIG, population: { ...DEFAULT_CONFIG.population, maliciousRatio: 0 } };
+  for (let seed = 1; seed <= 5; seed++) {
+    const peak = Math.max(...run(seed, config, 30).slice(WARM_UP));
+    assert.ok(peak < 0.05, `seed ${seed}: ASR reached ${peak.toFixed(3)}`);
+  }
+});
+
+test('the backdoor attack raises the ASR', () => {
+  const config = { ...DEFAULT_CONFIG, attack: { ...DEFAULT_CONFIG.attack, kind: 'backdoor' as const } };
+  const asr = run(1, config, 20);
+  assert.ok(asr[asr.length - 1] > 0.5, `ASR after 20 rounds: ${asr[asr.length - 1].toFixed(3)}`);
+});
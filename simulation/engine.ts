@@ -0,0 +1,395 @@
+import {
+  Client,
+  RoundThresholds,
+  SimulationConfig,
+  SimulationState,
+  SERVER_LR,
+  HISTORY_WINDOW
+} from './types';
+import { DEFAULT_CONFIG } from './config';
+import { aggregate } from './aggregators';
+import { estimateFIM, updateMomentumFIM, stiffnessOf } from './fim';
+import { craftMaliciousUpdates } from './attacks';
+import {
+  Sample,
+  TestSets,
+  ROOT_DATA_SIZE,
+  BACKDOOR_TARGET,
+  createDataModel,
+  createTestSets,
+  sampleBatch,
+  shiftFeatures,
+  uniformLabels
+} from './dataset';
+import { ModelSpec, buildModelSpec, layerSlice, initModel, localTrain, predict } from './model';
+import { computeThreshold, layerWeights, layerWeightedDistance, agglomerativeCluster } from './detection';
+import { detectionMetrics } from './metrics';
+import { MAX_STALENESS, Population, createPopulation, churnPopulation, sampleParticipants, isAttackActive } from './population';
+import { PartitionConfig, clientPartition } from './partition';
+import { newReputation, updateReputation } from './reputation';
+import { EMPTY_LEDGER, addNoise, chargeRound, noiseMultiplier, privacyRng, privatizeUpdate } from './privacy';
+import { confineUpdate, nextAttackTarget, selectAttackTarget, targetRng } from './targets';
+import { fimDrift, initialRecovery, recoverRound } from './recovery';
+import { Rng, Vector, zeros, createRng, mag, median } from './math';
+
+// --- Headless Simulation Engine ---
+// Pure round logic shared by the React app and the batch CLI runner.
+
+// Fresh local batch drawn from the client's own partition (label mix, amount and input shift)
+const sampleClientData = (partitionSeed: number, partition: PartitionConfig, state: SimulationState, rng: Rng): Sample[] => {
+  const { labelDistribution, dataSize, featureOffset } = clientPartition(partitionSeed, partition);
+  return shiftFeatures(sampleBatch(state.dataModel, labelDistribution, dataSize, rng), featureOffset);
+};
+
+// ASR only counts the triggered samples whose clean original the model gets right: an input it
+// already misclassifies as the target is the model's error, not the backdoor's success
+const evaluate = (spec: ModelSpec, model: Vector, { clean, triggered, sources }: TestSets) => {
+  const correct = clean.map(s => predict(spec, model, s.x) === s.y);
+  const eligible = sources.flatMap((k, t) => correct[k] ? [t] : []);
+  const hits = eligible.filter(t => predict(spec, model, triggered[t].x) === BACKDOOR_TARGET).length;
+  return {
+    acc: clean.length > 0 ? correct.filter(Boolean).length / clean.length : 0,
+    asr: eligible.length > 0 ? hits / eligible.length : 0
+  };
+};
+
+// Architecture and population are fixed for the run, so they are taken from `config` here only
+export const createInitialState = (seed: number, config: SimulationConfig = DEFAULT_CONFIG): SimulationState => {
+  const rng = createRng(seed);
+  const dataModel = createDataModel(rng);
+  const testSets = createTestSets(dataModel, rng);
+  const modelSpec = buildModelSpec(config.model);
+  const globalModel = initModel(modelSpec, rng);
+  const population = createPopulation(config.population, rng);
+  const { acc, asr } = evaluate(modelSpec, globalModel, testSets);
+  const globalFIM = zeros(modelSpec.dim).fill(1); // Init FIM (uniform prior until the first estimate)
+  return {
+    seed,
+    rngState: rng.state(),
+    round: 0,
+    globalAccuracy: acc,
+    backdoorSuccessRate: asr,
+    globalFIM,
+    detectionFIM: zeros(modelSpec.dim).fill(1),
+    layerWeights: [],
+    modelSpec,
+    globalModel,
+    recentModels: [],
+    population,
+    foolsGoldHistory: {},
+    reputation: {},
+    privacy: EMPTY_LEDGER,
+    attackTarget: selectAttackTarget(config.target, modelSpec, globalFIM, seed, 1),
+    recovery: initialRecovery(globalModel, globalFIM, acc, asr),
+    dataModel,
+    testSets,
+    thresholds: {},
+    clients: [],
+    history: []
+  };
+};
+
+// The server's threshold rule on raw stiffness scores (scale-free: scores are taken relative to their median)
+const stiffnessRule = (config: SimulationConfig, fim: Vector, rootGradient: Vector) => (raw: number[]) => {
+  const scale = median(raw) || 1;
+  return scale * computeThreshold(config.detection, raw.map(v => v / scale), stiffnessOf(fim, rootGradient) / scale);
+};
+
+// One participant's update as it reaches the server, simulated or imported
+export type ReportedUpdate = Pick<Client, 'id' | 'type' | 'isAttacking' | 'staleness' | 'partitionSeed' | 'dataSize' | 'gradient'>;
+
+// Everything the server side of a round works from besides the previous state
+export interface RoundInput {
+  population: Population; // Registry after the round's churn
+  updates: ReportedUpdate[];
+  rootGradient: Vector; // Server update on its clean root data ('reference' thresholds, FLTrust)
+  fim: Vector; // FIM the updates are scored and clustered with
+  rngState: number; // PRNG state after the round's draws
+  evaluate: (globalModel: Vector) => { acc: number; asr: number };
+}
+
+// Advance the simulation by one round. Does not mutate `prev`.
+export const runRound = (config: SimulationConfig, prev: SimulationState): SimulationState => {
+  const { modelSpec } = prev;
+  const newRound = prev.round + 1;
+  const rng = createRng(prev.rngState);
+
+  // 1. Select Clients & Generate Gradients
+  // Churn the registry, then sample this round's participants (dropouts never report)
+  const population = churnPopulation(prev.population, config.population.churnRate, newRound, rng);
+  const attackActive = isAttackActive(config.population, newRound);
+  const specs = sampleParticipants(population, config.population, rng).map(({ profile, staleness }) => ({
+    ...profile,
+    staleness,
+    attacking: profile.type === 'malicious' && attackActive, // Outside the attack window attackers train honestly
+    data: sampleClientData(profile.partitionSeed, config.partition, prev, rng)
+  }));
+
+  // Server update on its clean root dataset: FLTrust's trust anchor and the 'reference'
+  // threshold method (drawn every round so client draws stay identical whichever is selected)
+  const rootGradient = localTrain(modelSpec, prev.globalModel, sampleBatch(prev.dataModel, uniformLabels(), ROOT_DATA_SIZE, rng), rng);
+
+  // Clients are scored against the FIM estimated from previously accepted updates;
+  // the server never knows in advance which parameters the backdoor targets.
+  const currentFIM = prev.globalFIM;
+
+  // Honest clients run local SGD (stragglers on the global model they last received);
+  // the active attackers craft their updates together
+  const honestUpdates = specs.map(spec => spec.attacking ? null
+    : localTrain(modelSpec, spec.staleness > 0 ? prev.recentModels[spec.staleness - 1] ?? prev.globalModel : prev.globalModel, spec.data, rng));
+  const attackers = specs.filter(spec => spec.attacking);
+  const crafted = attackers.length === 0 ? [] : craftMaliciousUpdates(config.attack, {
+    modelSpec,
+    globalModel: prev.globalModel,
+    localData: attackers.map(spec => spec.data),
+    globalFIM: currentFIM,
+    stiffnessThreshold: stiffnessRule(config, currentFIM, rootGradient)
+  }, rng);
+
+  // Outside 'full' the attackers change only their target parameters (see targets.ts); the
+  // adaptive attack sizes its crafted update before it is confined
+  const attackTarget = nextAttackTarget(config.target, prev.attackTarget, modelSpec, currentFIM, prev.seed, newRound);
+  const referenceRng = targetRng(prev.rngState);
+  const maliciousUpdates = config.target.mode === 'full' ? crafted : crafted.map((update, k) =>
+    confineUpdate(localTrain(modelSpec, prev.globalModel, attackers[k].data, referenceRng), update, attackTarget.indices));
+
+  const next = serveRound(config, prev, {
+    population,
+    updates: specs.map((spec, k) => ({
+      id: spec.id,
+      type: spec.type,
+      isAttacking: spec.attacking,
+      staleness: spec.staleness,
+      partitionSeed: spec.partitionSeed,
+      dataSize: spec.data.length,
+      gradient: honestUpdates[k] ?? maliciousUpdates[attackers.indexOf(spec)]
+    })),
+    rootGradient,
+    fim: currentFIM,
+    rngState: rng.state(),
+    evaluate: model => evaluate(modelSpec, model, prev.testSets)
+  });
+  return { ...next, attackTarget };
+};
+
+// The server side of a round: FIM-based detection, reputation, aggregation and evaluation.
+// Shared by simulated rounds and rounds replayed from imported updates (see replay.ts).
+export const serveRound = (config: SimulationConfig, prev: SimulationState, input: RoundInput): SimulationState => {
+  const { useMomentumFIM, useStiffnessMask, useLayerWeightedClustering } = config;
+  const { modelSpec } = prev;
+  const newRound = prev.round + 1;
+  const { population, rootGradient, fim: currentFIM } = input;
+
+  // Differential privacy: clipping (and local noise) applied to the updates the defenses score,
+  // or only to the accepted ones before aggregation (see privacy.ts)
+  const { privacy } = config;
+  const z = privacy.mode === 'off' ? 0 : noiseMultiplier(privacy);
+  const noiseRng = privacyRng(prev.rngState);
+  const privatize = (g: Vector) => privacy.mode === 'off' ? g : privatizeUpdate(g, privacy, z, noiseRng);
+  const privatizeFirst = privacy.placement === 'beforeDefense';
+
+  // What the server remembers about each participant from earlier rounds
+  const reputations = input.updates.map(u => prev.reputation[u.id] ?? newReputation(config.reputation));
+
+  const newClients: Client[] = input.updates.map((u, k) => ({
+    ...u,
+    gradient: privatizeFirst ? privatize(u.gradient) : u.gradient,
+    stiffnessViolationScore: 0,
+    layerStiffness: [],
+    distanceScore: 0,
+    isAccepted: true, // Default accept
+    isBanned: config.reputation.ban && reputations[k].bannedRound > 0,
+    reputation: reputations[k].score,
+    aggregationWeight: 0,
+    clusterId: -1
+  }));
+
+  // 2. Defense Logic: FIM-Based Detection
+  // Thresholds come from this round's own score statistics (see DetectionConfig)
+  const thresholds: RoundThresholds = {};
+  // Banned clients are rejected outright; the others are flagged by the detectors below
+  const flagged = newClients.map(c => c.isBanned);
+  const stiffnessFlagged = newClients.map(() => false); // Stiffness mask or magnitude check
+  const clusterFlagged = newClients.map(() => false);
+
+  // Mechanism A: Stiffness Conflict (The "Mask" logic)
+  // If FIM is high, gradient magnitude should be consistent with the rest of the round.
+  // Scores are reported relative to the round median (1 = typical client).
+  const rawStiffness = newClients.map(c => stiffnessOf(currentFIM, c.gradient));
+  const stiffnessScale = median(rawStiffness) || 1;
+  const stiffnessScores = rawStiffness.map(v => v / stiffnessScale);
+  if (useStiffnessMask) {
+    thresholds.stiffness = stiffnessRule(config, currentFIM, rootGradient)(rawStiffness) / stiffnessScale;
+    stiffnessScores.forEach((score, k) => { if (score > thresholds.stiffness!) flagged[k] = stiffnessFlagged[k] = true; });
+  }
+
+  // The same score per layer, each relative to its own round median (reported, not thresholded)
+  const layerStiffness = modelSpec.layers.map(layer => {
+    const raw = newClients.map(c => stiffnessOf(currentFIM, layerSlice(c.gradient, layer), layer.offset));
+    const scale = median(raw) || 1;
+    return raw.map(v => v / scale);
+  });
+
+  // Distance between updates: per-layer FIM-weighted cosine distance, averaged with layer weights
+  const weights = layerWeights(currentFIM, modelSpec.layers, config.detection.layerWeighting);
+  const distance = (a: Vector, b: Vector) => layerWeightedDistance(a, b, currentFIM, modelSpec.layers, weights);
+
+  // Direction score, recorded for every client (threshold sweeps): distance to the
+  // coordinate-wise median of the round's updates
+  const medianUpdate = zeros(modelSpec.dim);
+  const column = new Float64Array(newClients.length);
+  for (let i = 0; i < modelSpec.dim; i++) {
+    newClients.forEach((c, k) => column[k] = c.gradient[i]);
+    medianUpdate[i] = median(column);
+  }
+  const distanceScores = newClients.map(c => distance(c.gradient, medianUpdate));
+
+  // Mechanism B: Layer/FIM Weighted Clustering
+  // Agglomerative clustering of the remaining clients on the layer-weighted distance; only tight
+  // minority clusters standing apart from the majority and from the root update are rejected.
+  // FIM weighting damps Non-IID noise (usually in Low-FIM areas) and highlights Backdoor noise
+  // (in High-FIM areas).
+  const clusterIds = newClients.map(() => -1);
+  if (useLayerWeightedClustering) {
+    const candidates = newClients.map((_, k) => k).filter(k => !flagged[k]);
+    // Symmetric: each pair is measured once (a full pass over the parameters) and mirrored
+    const dist = candidates.map(() => Array<number>(candidates.length).fill(0));
+    candidates.forEach((a, i) => {
+      for (let j = i + 1; j < candidates.length; j++) {
+        dist[i][j] = dist[j][i] = distance(newClients[a].gradient, newClients[candidates[j]].gradient);
+      }
+    });
+    const rootDistance = candidates.map(k => distance(newClients[k].gradient, rootGradient));
+    const { labels, cut } = agglomerativeCluster(
+      dist, rootDistance, config.detection.linkage, config.detection.clusterK, config.detection.clusterSilhouette);
+    thresholds.clusterCut = cut;
+    candidates.forEach((k, idx) => {
+      clusterIds[k] = labels[idx];
+      if (labels[idx] !== 0) flagged[k] = clusterFlagged[k] = true;
+    });
+  }
+
+  // Basic check for control group (without our defenses, simplistic outlier removal fails on Non-IID)
+  if (!useStiffnessMask && !useLayerWeightedClustering) {
+    // Simple Magnitude check (fails against stealth)
+    const magnitudes = newClients.map(c => mag(c.gradient));
+    thresholds.magnitude = computeThreshold(config.detection, magnitudes, mag(rootGradient));
+    magnitudes.forEach((m, k) => { if (m > thresholds.magnitude!) flagged[k] = stiffnessFlagged[k] = true; });
+  }
+
+  const processedClients = newClients.map((client, k) => ({
+    ...client,
+    stiffnessViolationScore: stiffnessScores[k],
+    layerStiffness: layerStiffness.map(scores => scores[k]),
+    distanceScore: distanceScores[k],
+    clusterId: clusterIds[k],
+    isAccepted: !flagged[k]
+  }));
+
+  // 3. Aggregation & Metrics
+  const accepted = processedClients.filter(c => c.isAccepted);
+
+  // Refresh the FIM from this round's accepted updates (diagonal empirical Fisher).
+  // With Momentum FIM the estimate is folded into an EMA; without it only the latest estimate is kept.
+  let nextFIM = currentFIM;
+  const interval = Math.max(1, Math.round(config.fimRefreshInterval));
+  // The first estimate replaces the uniform prior instead of being averaged with it
+  const firstEstimate = newRound <= interval;
+  if (newRound % interval === 0 && accepted.length > 0) {
+    const estimate = estimateFIM(accepted.map(c => c.gradient), modelSpec.dim);
+    nextFIM = updateMomentumFIM(currentFIM, estimate, useMomentumFIM && !firstEstimate ? config.fimDecay : 0);
+  }
+
+  const updates = accepted.map(c => privatizeFirst ? c.gradient : privatize(c.gradient));
+
+  // Clients that left the population are forgotten. A parameter-sized sum per registered client
+  // is a lot of memory for large models, so it is only kept while FoolsGold needs it.
+  const foolsGoldHistory: Record<number, Vector> = config.aggregator.rule !== 'foolsgold' ? {}
+    : Object.fromEntries(population.clients.map(({ id }) => {
+      const h = prev.foolsGoldHistory[id] ?? zeros(modelSpec.dim);
+      const k = accepted.findIndex(c => c.id === id);
+      return [id, k >= 0 ? h.map((v, i) => v + updates[k][i]) : h];
+    }));
+
+  const { update: aggregated, weights: aggregationWeights } = aggregate(config.aggregator, updates, {
+    rootGradient,
+    historicalUpdates: accepted.map(c => foolsGoldHistory[c.id]),
+    sampleCounts: accepted.map(c => c.dataSize),
+    trust: accepted.map(c => config.reputation.downweight ? c.reputation : 1)
+  });
+  // Central DP: the server perturbs the aggregate (std scaled for the mean of the accepted updates)
+  const update = privacy.mode === 'central' && accepted.length > 0
+    ? addNoise(aggregated, z * privacy.clipNorm / accepted.length, noiseRng)
+    : aggregated;
+  const steppedModel = prev.globalModel.map((w, i) => w - SERVER_LR * update[i]);
+
+  const clients = processedClients.map(c => {
+    const k = accepted.indexOf(c);
+    return k >= 0 ? { ...c, aggregationWeight: aggregationWeights[k] } : c;
+  });
+
+  // Fold this round's detector outcomes into the participants' reputations (banned clients are
+  // not scored); clients that left the population are forgotten
+  const updatedReputation = Object.fromEntries(processedClients.flatMap((c, k) => c.isBanned ? [] : [[
+    c.id,
+    updateReputation(reputations[k], { stiffnessViolation: stiffnessFlagged[k], clusterOutlier: clusterFlagged[k] }, config.reputation, newRound)
+  ]]));
+  const reputation = Object.fromEntries(population.clients.map(({ id }) =>
+    [id, updatedReputation[id] ?? prev.reputation[id] ?? newReputation(config.reputation)]));
+
+  // Evaluate the new global model: clean accuracy and backdoor success on triggered inputs
+  const evaluated = input.evaluate(steppedModel);
+
+  // Recovery: checkpoint the round, then roll back on an anomaly or unlearn the contributions of
+  // clients that have since been flagged (see recovery.ts)
+  const { recovery: recoveryConfig } = config;
+  const recovered = recoverRound(recoveryConfig, prev.recovery, {
+    round: newRound,
+    model: steppedModel,
+    fim: nextFIM,
+    drift: recoveryConfig.mode === 'rollback' && nextFIM !== currentFIM && !firstEstimate ? fimDrift(currentFIM, nextFIM) : NaN,
+    stiffness: accepted.length > 0 ? Math.max(...accepted.map(c => c.stiffnessViolationScore)) : NaN,
+    acc: evaluated.acc,
+    asr: evaluated.asr,
+    accepted: recoveryConfig.mode !== 'unlearn' ? []
+      : accepted.map((c, k) => ({ id: c.id, update: updates[k], weight: aggregationWeights[k] })),
+    violations: Object.fromEntries(Object.entries(updatedReputation).flatMap(([id, r]) => {
+      const earned = r.violations - (prev.reputation[Number(id)]?.violations ?? 0);
+      return earned > 0 ? [[id, earned]] : [];
+    })),
+    registered: population.clients.map(({ id }) => id)
+  }, input.evaluate, SERVER_LR);
+  const { model: globalModel, acc: newAcc, asr: newASR } = recovered;
+
+  const newHistory = [...prev.history, {
+    round: newRound,
+    acc: newAcc,
+    asr: newASR,
+    participants: clients.length,
+    detection: detectionMetrics(clients),
+    scores: clients.map(c => ({ malicious: c.isAttacking, stiffness: c.stiffnessViolationScore, distance: c.distanceScore })),
+    reputation: Object.fromEntries(Object.entries(reputation).map(([id, r]) => [id, r.score])),
+    recovery: recovered.event
+  }].slice(-HISTORY_WINDOW);
+
+  return {
+    ...prev,
+    rngState: input.rngState,
+    round: newRound,
+    clients,
+    globalAccuracy: newAcc,
+    backdoorSuccessRate: newASR,
+    globalFIM: recovered.fim,
+    detectionFIM: currentFIM,
+    layerWeights: weights,
+    globalModel,
+    recentModels: (recovered.recentModels ?? [prev.globalModel, ...prev.recentModels]).slice(0, MAX_STALENESS),
+    population,
+    foolsGoldHistory,
+    reputation,
+    privacy: privacy.mode === 'off' ? prev.privacy : chargeRound(prev.privacy, privacy, z),
+    recovery: recovered.ledger,
+    thresholds,
+    history: newHistory
+  };
+};
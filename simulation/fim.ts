@@ -0,0 +1,28 @@
+import { Vector, zeros } from './math';
+
+// --- Fisher Information Estimation ---
+
+// Diagonal empirical Fisher: F_i = E[g_i^2] over the given gradients. Works on
+// per-client updates or, when a real model is available, per-sample gradients.
+export const estimateFIM = (gradients: Vector[], dim: number): Vector => {
+  const fim = zeros(dim);
+  if (gradients.length === 0) return fim;
+  gradients.forEach(g => {
+    for (let i = 0; i < dim; i++) fim[i] += g[i] * g[i];
+  });
+  return fim.map(f => f / gradients.length);
+};
+
+// Momentum FIM: F_new = decay * F_old + (1 - decay) * F_current.
+// decay = 0 keeps no memory (the raw per-round estimate).
+export const updateMomentumFIM = (prevFIM: Vector, estimate: Vector, decay: number): Vector =>
+  prevFIM.map((f, i) => decay * f + (1 - decay) * estimate[i]);
+
+// Stiffness score: Sum(FIM_i * |g_i|) / dim. If importance is high, large changes are suspicious.
+// `g` may be one layer's slice, starting at `offset` in the FIM. Shared by the server's check
+// and the adaptive attack's estimate of it.
+export const stiffnessOf = (fim: Vector, g: Vector, offset = 0) => {
+  let sum = 0;
+  for (let i = 0; i < g.length; i++) sum += fim[offset + i] * Math.abs(g[i]);
+  return sum / g.length;
+};
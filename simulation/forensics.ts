@@ -0,0 +1,151 @@
+import { SimulationState } from './types';
+import { layerWeightedDistance } from './detection';
+import { mag } from './math';
+import { ClientSummary } from './summary';
+
+// --- Client Forensics ---
+// Why a round's participant was accepted or rejected: every server check with the value it saw
+// and the threshold it used, and which parameters drove its stiffness score. Recomputed from
+// the stored round, with the same FIM the server scored the round with.
+
+export type CheckKind = 'banned' | 'stiffness' | 'cluster' | 'magnitude';
+
+export const CHECK_LABELS: Record<CheckKind, string> = {
+  banned: 'Reputation Ban',
+  stiffness: 'Stiffness Mask',
+  cluster: 'Layer-Weighted Clustering',
+  magnitude: 'Magnitude Check'
+};
+
+export interface CheckResult {
+  kind: CheckKind;
+  ran: boolean; // The check was active this round
+  fired: boolean; // It rejected the client
+  value?: number; // What was compared (stiffness score, cluster label, L2 norm)
+  threshold?: number;
+}
+
+// One parameter, or a contiguous bucket of them for large models
+export interface ParameterPoint {
+  start: number;
+  end: number;
+  layer: string;
+  update: number; // Mean update value
+  fim: number; // Mean FIM the client was scored with
+  contribution: number; // Part of stiffnessViolationScore: sum of FIM_i * |update_i|, in score units
+  targeted: boolean; // Contains a parameter the attackers targeted this round
+}
+
+export interface LayerContribution {
+  layer: string;
+  share: number; // Share of the stiffness score from this layer
+  score: number; // Layer stiffness relative to the round median of that layer
+}
+
+export interface ClientForensics {
+  round: number;
+  client: ClientSummary;
+  checks: CheckResult[];
+  parameters: ParameterPoint[];
+  topParameters: ParameterPoint[]; // Single parameters with the largest contributions
+  layers: LayerContribution[];
+  distanceToMedian: number; // Layer-weighted FIM distance to the round's coordinate-wise median update
+  distanceToMajority?: number; // Mean distance to the majority cluster's other members (when clustering ran)
+  magnitude: number; // L2 norm of the update
+}
+
+// Parameter points plotted per client; larger models are bucketed
+export const FORENSIC_POINTS = 256;
+const TOP_PARAMETERS = 10;
+
+export const clientForensics = (state: SimulationState, clientId: number): ClientForensics | null => {
+  const index = state.clients.findIndex(c => c.id === clientId);
+  if (index < 0) return null;
+  const { gradient, ...client } = state.clients[index];
+  const { modelSpec, detectionFIM: fim, thresholds } = state;
+  const layerOf = (i: number) => modelSpec.layers.find(l => i >= l.offset && i < l.offset + l.size)!.name;
+  const targeted = new Uint8Array(modelSpec.dim);
+  state.attackTarget.indices.forEach(i => targeted[i] = 1);
+
+  // FIM_i * |update_i| rescaled so the contributions add up to the client's stiffness score
+  let raw = 0;
+  for (let i = 0; i < gradient.length; i++) raw += fim[i] * Math.abs(gradient[i]);
+  const unit = raw > 0 ? client.stiffnessViolationScore / raw : 0;
+  const contributionOf = (i: number) => fim[i] * Math.abs(gradient[i]) * unit;
+
+  const bucketSize = Math.ceil(modelSpec.dim / FORENSIC_POINTS);
+  const parameters = Array.from({ length: Math.ceil(modelSpec.dim / bucketSize) }, (_, b) => {
+    const start = b * bucketSize;
+    const end = Math.min(modelSpec.dim, start + bucketSize);
+    let update = 0, fimSum = 0, contribution = 0, hits = 0;
+    for (let i = start; i < end; i++) {
+      update += gradient[i];
+      fimSum += fim[i];
+      contribution += contributionOf(i);
+      hits += targeted[i];
+    }
+    return { start, end, layer: layerOf(start), update: update / (end - start), fim: fimSum / (end - start), contribution, targeted: hits > 0 };
+  });
+
+  // Partial selection: keep the running top list short instead of sorting every parameter
+  const top: number[] = [];
+  for (let i = 0; i < modelSpec.dim; i++) {
+    if (top.length === TOP_PARAMETERS && contributionOf(i) <= contributionOf(top[top.length - 1])) continue;
+    top.push(i);
+    top.sort((a, b) => contributionOf(b) - contributionOf(a));
+    if (top.length > TOP_PARAMETERS) top.pop();
+  }
+
+  const layers = modelSpec.layers.map((layer, l) => {
+    let share = 0;
+    for (let i = layer.offset; i < layer.offset + layer.size; i++) share += contributionOf(i);
+    return {
+      layer: layer.name,
+      share: client.stiffnessViolationScore > 0 ? share / client.stiffnessViolationScore : 0,
+      score: client.layerStiffness[l]
+    };
+  });
+
+  const distance = (other: number) =>
+    layerWeightedDistance(gradient, state.clients[other].gradient, fim, modelSpec.layers, state.layerWeights);
+  const majority = state.clients.map((c, k) => k).filter(k => k !== index && state.clients[k].clusterId === 0);
+  const magnitude = mag(gradient);
+
+  return {
+    round: state.round,
+    client,
+    checks: [
+      { kind: 'banned', ran: client.isBanned, fired: client.isBanned },
+      {
+        kind: 'stiffness',
+        ran: thresholds.stiffness !== undefined,
+        fired: thresholds.stiffness !== undefined && client.stiffnessViolationScore > thresholds.stiffness,
+        value: client.stiffnessViolationScore,
+        threshold: thresholds.stiffness
+      },
+      {
+        // Flagged clients are not clustered (label -1); the cut is the dendrogram height
+        kind: 'cluster',
+        ran: thresholds.clusterCut !== undefined && client.clusterId >= 0,
+        fired: client.clusterId > 0,
+        value: client.clusterId,
+        threshold: thresholds.clusterCut
+      },
+      {
+        kind: 'magnitude',
+        ran: thresholds.magnitude !== undefined,
+        fired: thresholds.magnitude !== undefined && magnitude > thresholds.magnitude,
+        value: magnitude,
+        threshold: thresholds.magnitude
+      }
+    ],
+    parameters,
+    topParameters: top.map(i => ({ start: i, end: i + 1, layer: layerOf(i), update: gradient[i], fim: fim[i], contribution: contributionOf(i), targeted: targeted[i] === 1 })),
+    layers,
+    distanceToMedian: client.distanceScore,
+    distanceToMajority: thresholds.clusterCut !== undefined && majority.length > 0
+      ? majority.reduce((acc, k) => acc + distance(k), 0) / majority.length
+      : undefined,
+    magnitude
+  };
+};
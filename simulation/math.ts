@@ -0,0 +1,121 @@
+// --- Helper Math Functions ---
+
+// Parameter-sized vectors (models, updates, FIM) are single-precision typed arrays: half the
+// memory of number[], and they move to and from the simulation worker without re-boxing
+export type Vector = Float32Array;
+
+export const zeros = (dim: number): Vector => new Float32Array(dim);
+
+// Seedable PRNG (mulberry32). Its whole state is one 32-bit integer, so it can be
+// stored in SimulationState and a run replayed exactly from its seed.
+export interface Rng {
+  next: () => number; // Uniform in [0, 1)
+  state: () => number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let s = seed | 0;
+  return {
+    next: () => {
+      s = (s + 0x6D2B79F5) | 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => s >>> 0
+  };
+};
+
+// Fresh seed for a new run (the only non-deterministic draw; the seed itself is recorded)
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+export const randomNormal = (rng: Rng) => {
+  let u = 0, v = 0;
+  while(u === 0) u = rng.next(); 
+  while(v === 0) v = rng.next();
+  return Math.sqrt( -2.0 * Math.log( u ) ) * Math.cos( 2.0 * Math.PI * v );
+};
+
+// Gamma(shape, 1) sample (Marsaglia & Tsang; shape < 1 via the boost Gamma(shape + 1) * U^(1/shape))
+export const randomGamma = (rng: Rng, shape: number): number => {
+  if (shape < 1) return randomGamma(rng, shape + 1) * Math.pow(rng.next() || Number.MIN_VALUE, 1 / shape);
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number, v: number;
+    do {
+      x = randomNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng.next();
+    if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+};
+
+// Calculate dot product
+export const dot = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+// Calculate magnitude
+export const mag = (a: ArrayLike<number>) => Math.sqrt(dot(a, a));
+
+// Squared Euclidean distance
+export const sqDist = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) * (a[i] - b[i]);
+  return sum;
+};
+
+// Largest entry (Math.max(...v) overflows the call stack on large vectors)
+export const maxOf = (a: ArrayLike<number>) => {
+  let max = -Infinity;
+  for (let i = 0; i < a.length; i++) if (a[i] > max) max = a[i];
+  return max;
+};
+
+// Cosine similarity (0 if either vector is zero)
+export const cosine = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  const denom = mag(a) * mag(b);
+  return denom > 0 ? dot(a, b) / denom : 0;
+};
+
+// k-th smallest entry (0-based) by quickselect; reorders `a` so that a[0..k) <= a[k]
+const select = (a: Float64Array, k: number) => {
+  let lo = 0, hi = a.length - 1;
+  while (lo < hi) {
+    const pivot = a[(lo + hi) >> 1];
+    let i = lo, j = hi;
+    while (i <= j) {
+      while (a[i] < pivot) i++;
+      while (a[j] > pivot) j--;
+      if (i <= j) {
+        const t = a[i]; a[i] = a[j]; a[j] = t;
+        i++; j--;
+      }
+    }
+    if (k <= j) hi = j;
+    else if (k >= i) lo = i;
+    else break;
+  }
+  return a[k];
+};
+
+// Linear time: the engine takes one per parameter every round (coordinate-wise median update)
+export const median = (values: ArrayLike<number>) => {
+  const a = Float64Array.from(values);
+  if (a.length === 0) return NaN;
+  const mid = a.length >> 1;
+  const upper = select(a, mid);
+  if (a.length % 2) return upper;
+  let lower = -Infinity;
+  for (let i = 0; i < mid; i++) lower = Math.max(lower, a[i]);
+  return (lower + upper) / 2;
+};
+
+// k-th smallest value (0-based) without sorting, e.g. FIM quantiles of large models
+export const kthSmallest = (values: ArrayLike<number>, k: number) => select(Float64Array.from(values), k);
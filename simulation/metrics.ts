@@ -0,0 +1,95 @@
+import { Client } from './types';
+
+// --- Detection Metrics ---
+// "Positive" = client that sent a malicious update (an attacker inside its attack window),
+// "predicted positive" = rejected by the server's filters.
+
+export interface DetectionMetrics {
+  tp: number; // Malicious update, rejected
+  fp: number; // Honest update, rejected (honest clients wrongly blocked)
+  tn: number; // Honest update, accepted
+  fn: number; // Malicious update, accepted
+  precision: number;
+  recall: number; // = TPR
+  fpr: number;
+  f1: number;
+}
+
+// 0/0 ratios (e.g. precision when nothing was rejected) are reported as 0
+const ratio = (num: number, den: number) => den > 0 ? num / den : 0;
+
+const fromCounts = (tp: number, fp: number, tn: number, fn: number): DetectionMetrics => {
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  return { tp, fp, tn, fn, precision, recall, fpr: ratio(fp, fp + tn), f1: ratio(2 * precision * recall, precision + recall) };
+};
+
+export const detectionMetrics = (clients: Pick<Client, 'isAttacking' | 'isAccepted'>[]): DetectionMetrics => {
+  let tp = 0, fp = 0, tn = 0, fn = 0;
+  clients.forEach(c => {
+    if (!c.isAccepted) c.isAttacking ? tp++ : fp++;
+    else c.isAttacking ? fn++ : tn++;
+  });
+  return fromCounts(tp, fp, tn, fn);
+};
+
+// Metrics over several rounds: counts are summed first (micro-average), then the rates derived
+export const pooledDetection = (rounds: DetectionMetrics[]): DetectionMetrics => {
+  const sum = (key: 'tp' | 'fp' | 'tn' | 'fn') => rounds.reduce((acc, m) => acc + m[key], 0);
+  return fromCounts(sum('tp'), sum('fp'), sum('tn'), sum('fn'));
+};
+
+// Per-client scores kept in history so ROC/PR curves can be rebuilt for any threshold
+export interface ScoreSample {
+  malicious: boolean; // Sent a malicious update that round
+  stiffness: number; // stiffnessViolationScore (relative to the round median)
+  distance: number; // distanceScore (layer-weighted FIM distance to the round's median update)
+}
+
+// A score a threshold sweep can run over
+export type SweepScore = Exclude<keyof ScoreSample, 'malicious'>;
+
+export interface CurvePoint {
+  threshold: number; // Reject when score > threshold
+  tpr: number;
+  fpr: number;
+  precision: number;
+  recall: number;
+}
+
+export interface ThresholdSweep {
+  points: CurvePoint[]; // From the strictest threshold (reject nothing) to the loosest (reject all)
+  auc: number; // Area under the ROC curve
+  ap: number; // Average precision (area under the PR curve, step-wise)
+}
+
+// Sweep the rejection threshold over every distinct observed score
+export const sweepThresholds = (samples: { score: number; malicious: boolean }[]): ThresholdSweep => {
+  const sorted = [...samples].sort((a, b) => b.score - a.score);
+  const positives = sorted.filter(s => s.malicious).length;
+  const negatives = sorted.length - positives;
+
+  const points: CurvePoint[] = [{ threshold: Infinity, tpr: 0, fpr: 0, precision: 1, recall: 0 }];
+  let tp = 0, fp = 0;
+  sorted.forEach((s, k) => {
+    s.malicious ? tp++ : fp++;
+    // Tied scores fall on the same side of any threshold: emit one point per distinct score
+    if (k + 1 < sorted.length && sorted[k + 1].score === s.score) return;
+    const next = k + 1 < sorted.length ? sorted[k + 1].score : -Infinity;
+    points.push({
+      threshold: next,
+      tpr: ratio(tp, positives),
+      fpr: ratio(fp, negatives),
+      precision: ratio(tp, tp + fp),
+      recall: ratio(tp, positives)
+    });
+  });
+
+  let auc = 0, ap = 0;
+  for (let k = 1; k < points.length; k++) {
+    const a = points[k - 1], b = points[k];
+    auc += (b.fpr - a.fpr) * (a.tpr + b.tpr) / 2;
+    ap += (b.recall - a.recall) * b.precision;
+  }
+  return { points, auc, ap };
+};
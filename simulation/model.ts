@@ -0,0 +1,260 @@
+import { NUM_FEATURES, NUM_CLASSES } from './types';
+import { Sample, TRIGGER_FEATURES, BACKDOOR_TARGET } from './dataset';
+import { Rng, Vector, zeros, randomNormal } from './math';
+
+// --- Layered Model ---
+// Parameters live in one flat vector (what clients send and the server aggregates); the
+// ModelSpec names the layers inside it: each layer is a contiguous [offset, offset + size) slice.
+
+export type ArchitectureKind = 'softmax' | 'mlp' | 'cnn';
+
+export interface ModelConfig {
+  architecture: ArchitectureKind;
+  hiddenUnits: number; // MLP: width of the hidden layer
+  convFilters: number; // CNN: number of 2x2 filters
+}
+
+export const ARCHITECTURE_LABELS: Record<ArchitectureKind, string> = {
+  softmax: 'Softmax Regression',
+  mlp: 'MLP (1 Hidden Layer)',
+  cnn: 'CNN (Conv 2x2 + Dense)'
+};
+
+export const DEFAULT_MODEL: ModelConfig = {
+  architecture: 'softmax',
+  hiddenUnits: 32,
+  convFilters: 8
+};
+
+export type LayerKind = 'conv' | 'dense' | 'bias';
+
+export interface LayerSpec {
+  name: string; // e.g. 'fc1.weight'
+  kind: LayerKind;
+  shape: number[]; // Row-major
+  offset: number; // First index in the flat parameter vector
+  size: number;
+}
+
+// One computation stage; `weight` and `bias` index into ModelSpec.layers
+type Op =
+  | { kind: 'conv'; weight: number; bias: number; filters: number; kernel: number; inSide: number; outSide: number }
+  | { kind: 'dense'; weight: number; bias: number; inputs: number; units: number; relu: boolean };
+
+export interface ModelSpec {
+  architecture: ArchitectureKind | 'imported'; // Imported layouts (replay.ts) only name their layers: no ops
+  layers: LayerSpec[];
+  ops: Op[];
+  dim: number; // Total parameter count
+}
+
+const IMAGE_SIDE = Math.sqrt(NUM_FEATURES); // Inputs are square single-channel "images"
+const CONV_KERNEL = 2;
+
+export const buildModelSpec = (config: ModelConfig): ModelSpec => {
+  const layers: LayerSpec[] = [];
+  const addLayer = (name: string, kind: LayerKind, shape: number[]) => {
+    const size = shape.reduce((a, b) => a * b, 1);
+    const offset = layers.length ? layers[layers.length - 1].offset + layers[layers.length - 1].size : 0;
+    layers.push({ name, kind, shape, offset, size });
+    return layers.length - 1;
+  };
+  const dense = (name: string, inputs: number, units: number, relu: boolean): Op => ({
+    kind: 'dense',
+    weight: addLayer(`${name}.weight`, 'dense', [units, inputs]),
+    bias: addLayer(`${name}.bias`, 'bias', [units]),
+    inputs,
+    units,
+    relu
+  });
+
+  const ops: Op[] = [];
+  switch (config.architecture) {
+    case 'softmax':
+      ops.push(dense('fc', NUM_FEATURES, NUM_CLASSES, false));
+      break;
+    case 'mlp': {
+      const hidden = Math.max(1, Math.round(config.hiddenUnits));
+      ops.push(dense('fc1', NUM_FEATURES, hidden, true), dense('fc2', hidden, NUM_CLASSES, false));
+      break;
+    }
+    case 'cnn': {
+      const filters = Math.max(1, Math.round(config.convFilters));
+      const outSide = IMAGE_SIDE - CONV_KERNEL + 1;
+      ops.push({
+        kind: 'conv',
+        weight: addLayer('conv.weight', 'conv', [filters, CONV_KERNEL, CONV_KERNEL]),
+        bias: addLayer('conv.bias', 'bias', [filters]),
+        filters,
+        kernel: CONV_KERNEL,
+        inSide: IMAGE_SIDE,
+        outSide
+      });
+      ops.push(dense('fc', filters * outSide * outSide, NUM_CLASSES, false));
+      break;
+    }
+  }
+  const last = layers[layers.length - 1];
+  return { architecture: config.architecture, layers, ops, dim: last.offset + last.size };
+};
+
+// The layer's slice of a flat parameter-sized vector (parameters, gradient or FIM)
+// (a view, not a copy: writing to it writes to `vector`)
+export const layerSlice = (vector: Vector, layer: LayerSpec) => vector.subarray(layer.offset, layer.offset + layer.size);
+
+export const LOCAL_LR = 0.1;
+export const LOCAL_STEPS = 4; // Minibatch SGD steps per round of local training
+export const BATCH_SIZE = 8;
+
+// Parameters the backdoor has to change: the weights that read the trigger pixels on their way
+// to the target class (softmax: the target row; MLP: every hidden unit; CNN: the conv output
+// covering the trigger patch, feeding the target class)
+export const backdoorParams = (spec: ModelSpec): number[] => {
+  const first = spec.ops[0];
+  if (!first) return []; // Imported layout: the trigger is unknown
+  const weight = spec.layers[first.weight];
+  if (first.kind === 'dense') {
+    const rows = spec.ops.length === 1 ? [BACKDOOR_TARGET] : Array.from({ length: first.units }, (_, u) => u);
+    return rows.flatMap(u => TRIGGER_FEATURES.map(j => weight.offset + u * first.inputs + j));
+  }
+  const fc = spec.ops[1] as Extract<Op, { kind: 'dense' }>;
+  const fcWeight = spec.layers[fc.weight];
+  const cells = first.outSide * first.outSide;
+  return Array.from({ length: first.filters }, (_, f) => fcWeight.offset + BACKDOOR_TARGET * fc.inputs + f * cells);
+};
+
+// Small random init so argmax ties do not all fall on class 0 (the backdoor target);
+// hidden layers feeding a ReLU get He-scaled weights so the signal survives
+export const initModel = (spec: ModelSpec, rng: Rng): Vector => {
+  const scales = zeros(spec.dim).fill(0.01);
+  spec.ops.forEach(op => {
+    const hidden = op.kind === 'conv' || op.relu;
+    if (!hidden) return;
+    const weight = spec.layers[op.weight];
+    const fanIn = op.kind === 'conv' ? op.kernel * op.kernel : op.inputs;
+    for (let i = weight.offset; i < weight.offset + weight.size; i++) scales[i] = Math.sqrt(2 / fanIn);
+  });
+  return scales.map(s => randomNormal(rng) * s);
+};
+
+// Activations of every op for one input (index 0 is the input itself)
+const forward = (spec: ModelSpec, params: Vector, x: number[]): Float64Array[] => {
+  const acts = [Float64Array.from(x)];
+  spec.ops.forEach((op, o) => {
+    const input = acts[o];
+    const w = spec.layers[op.weight].offset;
+    const b = spec.layers[op.bias].offset;
+    let out: Float64Array;
+    if (op.kind === 'conv') {
+      const cells = op.outSide * op.outSide;
+      out = new Float64Array(op.filters * cells);
+      for (let f = 0; f < op.filters; f++) {
+        for (let r = 0; r < op.outSide; r++) {
+          for (let c = 0; c < op.outSide; c++) {
+            let z = params[b + f];
+            for (let a = 0; a < op.kernel; a++) {
+              for (let d = 0; d < op.kernel; d++) {
+                z += params[w + (f * op.kernel + a) * op.kernel + d] * input[(r + a) * op.inSide + (c + d)];
+              }
+            }
+            out[f * cells + r * op.outSide + c] = Math.max(0, z);
+          }
+        }
+      }
+    } else {
+      out = new Float64Array(op.units);
+      for (let u = 0; u < op.units; u++) {
+        let z = params[b + u];
+        for (let i = 0; i < op.inputs; i++) z += params[w + u * op.inputs + i] * input[i];
+        out[u] = op.relu ? Math.max(0, z) : z;
+      }
+    }
+    acts.push(out);
+  });
+  return acts;
+};
+
+const softmax = (logits: Float64Array): Float64Array => {
+  const maxLogit = Math.max(...logits);
+  const exps = logits.map(z => Math.exp(z - maxLogit));
+  const total = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / total);
+};
+
+export const predict = (spec: ModelSpec, params: Vector, x: number[]): number => {
+  const logits = forward(spec, params, x)[spec.ops.length];
+  return logits.indexOf(Math.max(...logits));
+};
+
+// Adds `weight` times the per-sample gradient of the cross-entropy loss to `grad` (backprop
+// through the op stack; accumulating in place avoids a parameter-sized array per sample)
+const accumulateGradient = (spec: ModelSpec, params: Vector, sample: Sample, grad: Vector, weight: number) => {
+  const acts = forward(spec, params, sample.x);
+  let delta = softmax(acts[spec.ops.length]).map((p, k) => weight * (p - (k === sample.y ? 1 : 0)));
+
+  for (let o = spec.ops.length - 1; o >= 0; o--) {
+    const op = spec.ops[o];
+    const input = acts[o];
+    const w = spec.layers[op.weight].offset;
+    const b = spec.layers[op.bias].offset;
+    if (op.kind === 'conv') {
+      // Always the first op: only parameter gradients are needed
+      const cells = op.outSide * op.outSide;
+      for (let f = 0; f < op.filters; f++) {
+        for (let r = 0; r < op.outSide; r++) {
+          for (let c = 0; c < op.outSide; c++) {
+            const d = delta[f * cells + r * op.outSide + c];
+            if (d === 0) continue;
+            grad[b + f] += d;
+            for (let a = 0; a < op.kernel; a++) {
+              for (let e = 0; e < op.kernel; e++) {
+                grad[w + (f * op.kernel + a) * op.kernel + e] += d * input[(r + a) * op.inSide + (c + e)];
+              }
+            }
+          }
+        }
+      }
+      continue;
+    }
+    for (let u = 0; u < op.units; u++) {
+      const d = delta[u];
+      if (d === 0) continue; // Inactive ReLU
+      grad[b + u] += d;
+      for (let i = 0; i < op.inputs; i++) grad[w + u * op.inputs + i] += d * input[i];
+    }
+    if (o === 0) break; // The input itself needs no gradient
+    const inputDelta = new Float64Array(op.inputs);
+    for (let u = 0; u < op.units; u++) {
+      const d = delta[u];
+      for (let i = 0; i < op.inputs; i++) inputDelta[i] += params[w + u * op.inputs + i] * d;
+    }
+    // Through the previous op's ReLU (its output is positive exactly where it was active)
+    const prev = spec.ops[o - 1];
+    const throughRelu = prev && (prev.kind === 'conv' || prev.relu);
+    delta = throughRelu ? inputDelta.map((d, i) => input[i] > 0 ? d : 0) : inputDelta;
+  }
+};
+
+const batchGradient = (spec: ModelSpec, params: Vector, batch: Sample[]): Vector => {
+  const grad = zeros(spec.dim);
+  batch.forEach(s => accumulateGradient(spec, params, s, grad, 1 / batch.length));
+  return grad;
+};
+
+// Local SGD from the global model. Returns the pseudo-gradient (global - local), so the
+// server applies it like a gradient: w <- w - lr * aggregate(updates).
+export const localTrain = (spec: ModelSpec, globalModel: Vector, data: Sample[], rng: Rng, batchSize = BATCH_SIZE): Vector => {
+  const params = globalModel.slice();
+  for (let step = 0; step < LOCAL_STEPS; step++) {
+    const batch = Array.from({ length: batchSize }, () => data[Math.floor(rng.next() * data.length)]);
+    const grad = batchGradient(spec, params, batch);
+    for (let i = 0; i < spec.dim; i++) params[i] -= LOCAL_LR * grad[i];
+  }
+  return globalModel.map((w, i) => w - params[i]);
+};
+
+export const accuracy = (spec: ModelSpec, params: Vector, samples: Sample[]): number => {
+  if (samples.length === 0) return 0;
+  const correct = samples.reduce((n, s) => n + (predict(spec, params, s.x) === s.y ? 1 : 0), 0);
+  return correct / samples.length;
+};
@@ -0,0 +1,105 @@
+import { NUM_CLASSES, NUM_FEATURES } from './types';
+import { LOCAL_DATA_SIZE } from './dataset';
+import { Rng, createRng, randomNormal, randomGamma } from './math';
+
+// --- Non-IID Data Partitioning ---
+// Standard heterogeneity models (cf. Li et al., "Federated Learning on Non-IID Data Silos", ICDE 2022).
+// Every client carries a partition seed; its local data distribution is derived from that seed and
+// the current config, so changing a scheme parameter takes effect immediately and stays reproducible.
+
+export type PartitionScheme = 'iid' | 'dirichlet' | 'shards' | 'quantity' | 'featureShift';
+
+export interface PartitionConfig {
+  scheme: PartitionScheme;
+  alpha: number; // Dirichlet: label proportions ~ Dir(alpha); smaller = more skewed
+  classesPerClient: number; // Shards: each client only holds this many classes (McMahan et al.)
+  quantitySigma: number; // Quantity skew: local dataset size ~ LogNormal(0, sigma) around the base size
+  featureShift: number; // Feature shift: std of each client's fixed per-pixel input offset
+}
+
+export const PARTITION_LABELS: Record<PartitionScheme, string> = {
+  iid: 'IID',
+  dirichlet: 'Dirichlet Label Skew',
+  shards: 'Pathological Shards (k Classes)',
+  quantity: 'Quantity Skew',
+  featureShift: 'Feature Shift'
+};
+
+export interface PartitionParamSpec {
+  key: Exclude<keyof PartitionConfig, 'scheme'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// The one parameter each scheme exposes (the old "Non-IID Degree" slider)
+export const PARTITION_PARAM: Record<PartitionScheme, PartitionParamSpec | null> = {
+  iid: null,
+  dirichlet: { key: 'alpha', label: 'Dirichlet α (越小越异构)', min: 0.05, max: 10, step: 0.05 },
+  shards: { key: 'classesPerClient', label: 'Classes per Client k (每客户端类别数)', min: 1, max: NUM_CLASSES, step: 1 },
+  quantity: { key: 'quantitySigma', label: 'Size Spread σ (数据量离散度)', min: 0, max: 2, step: 0.1 },
+  featureShift: { key: 'featureShift', label: 'Shift Std (特征偏移)', min: 0, max: 3, step: 0.1 }
+};
+
+export const DEFAULT_PARTITION: PartitionConfig = {
+  scheme: 'dirichlet',
+  alpha: 0.5,
+  classesPerClient: 2,
+  quantitySigma: 1,
+  featureShift: 1
+};
+
+// The config with the chosen scheme's parameter set to `value` (batch sweeps)
+export const withPartitionParam = (config: PartitionConfig, value: number): PartitionConfig => {
+  const param = PARTITION_PARAM[config.scheme];
+  return param ? { ...config, [param.key]: value } : config;
+};
+
+const MIN_LOCAL_DATA_SIZE = 2;
+const MAX_LOCAL_DATA_SIZE = 256;
+
+export interface ClientPartition {
+  labelDistribution: number[]; // Probability of each class in the client's data
+  dataSize: number; // Samples drawn per round
+  featureOffset: number[]; // Added to every input the client sees
+}
+
+export const clientPartition = (partitionSeed: number, config: PartitionConfig): ClientPartition => {
+  const rng: Rng = createRng(partitionSeed);
+  const uniform = Array(NUM_CLASSES).fill(1 / NUM_CLASSES);
+  const iid: ClientPartition = { labelDistribution: uniform, dataSize: LOCAL_DATA_SIZE, featureOffset: Array(NUM_FEATURES).fill(0) };
+
+  switch (config.scheme) {
+    case 'iid':
+      return iid;
+
+    case 'dirichlet': {
+      const draws = uniform.map(() => randomGamma(rng, Math.max(1e-3, config.alpha)));
+      const total = draws.reduce((a, b) => a + b, 0);
+      return { ...iid, labelDistribution: total > 0 ? draws.map(d => d / total) : uniform };
+    }
+
+    case 'shards': {
+      const k = Math.max(1, Math.min(NUM_CLASSES, Math.round(config.classesPerClient)));
+      const classes = Array.from({ length: NUM_CLASSES }, (_, c) => c);
+      for (let i = 0; i < k; i++) {
+        const j = i + Math.floor(rng.next() * (NUM_CLASSES - i));
+        [classes[i], classes[j]] = [classes[j], classes[i]];
+      }
+      const held = new Set(classes.slice(0, k));
+      return { ...iid, labelDistribution: uniform.map((_, c) => held.has(c) ? 1 / k : 0) };
+    }
+
+    case 'quantity': {
+      // Mean-one log-normal factor, so the expected total amount of data does not change
+      const sigma = Math.max(0, config.quantitySigma);
+      const factor = Math.exp(sigma * randomNormal(rng) - sigma * sigma / 2);
+      const dataSize = Math.min(MAX_LOCAL_DATA_SIZE, Math.max(MIN_LOCAL_DATA_SIZE, Math.round(LOCAL_DATA_SIZE * factor)));
+      return { ...iid, dataSize };
+    }
+
+    case 'featureShift':
+      return { ...iid, featureOffset: iid.featureOffset.map(() => randomNormal(rng) * config.featureShift) };
+  }
+};
@@ -0,0 +1,139 @@
+import { ClientType } from './types';
+import { Rng } from './math';
+
+// --- Client Population ---
+// Registered clients persist across rounds (ids are never reused). Each round the server
+// samples a fraction of them; some drop out, some report late, and the registry churns.
+
+export type AttackerPlacement = 'first' | 'random';
+
+export interface PopulationConfig {
+  numClients: number; // Registered clients (applied when a run starts)
+  maliciousRatio: number; // Share of them that are attackers (applied when a run starts)
+  attackerPlacement: AttackerPlacement; // 'first': ids 0..m-1; 'random': seeded random ids (applied when a run starts)
+  participation: number; // Fraction of registered clients sampled each round
+  dropoutRate: number; // Probability a sampled client never reports
+  stragglerRate: number; // Probability a sampled honest client reports an update computed on a stale global model
+  churnRate: number; // Per-round probability a client leaves; a new client of the same type joins in its place
+  attackStart: number; // First round attackers send malicious updates (before: they train honestly)
+  attackEnd: number; // Last such round (0 = no end)
+}
+
+export const ATTACKER_PLACEMENT_LABELS: Record<AttackerPlacement, string> = {
+  first: 'Fixed (ids 0..m-1)',
+  random: 'Random'
+};
+
+export interface PopulationParamSpec {
+  key: Exclude<keyof PopulationConfig, 'attackerPlacement'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  perRun?: boolean; // Only takes effect when a new run starts
+}
+
+// Numeric settings the sidebar exposes as sliders
+export const POPULATION_PARAMS: PopulationParamSpec[] = [
+  { key: 'numClients', label: 'Clients (客户端数)', min: 5, max: 200, step: 1, perRun: true },
+  { key: 'maliciousRatio', label: 'Malicious Ratio (恶意比例)', min: 0, max: 0.5, step: 0.05, perRun: true },
+  { key: 'participation', label: 'Participation (参与比例)', min: 0.05, max: 1, step: 0.05 },
+  { key: 'dropoutRate', label: 'Dropout (掉线率)', min: 0, max: 0.5, step: 0.05 },
+  { key: 'stragglerRate', label: 'Stragglers (滞后率)', min: 0, max: 0.5, step: 0.05 },
+  { key: 'churnRate', label: 'Churn (更替率)', min: 0, max: 0.2, step: 0.01 },
+  { key: 'attackStart', label: 'Attack Start Round (攻击开始)', min: 1, max: 200, step: 1 },
+  { key: 'attackEnd', label: 'Attack End Round (攻击结束, 0 = 不结束)', min: 0, max: 200, step: 1 }
+];
+
+export const DEFAULT_POPULATION: PopulationConfig = {
+  numClients: 20,
+  maliciousRatio: 0.2,
+  attackerPlacement: 'first',
+  participation: 1,
+  dropoutRate: 0,
+  stragglerRate: 0,
+  churnRate: 0,
+  attackStart: 1,
+  attackEnd: 0
+};
+
+export const MAX_STALENESS = 3; // Stragglers train on a global model 1..MAX_STALENESS rounds old
+
+export interface ClientProfile {
+  id: number;
+  type: ClientType;
+  partitionSeed: number; // Local data distribution (see partition.ts)
+  joinedRound: number;
+}
+
+export interface Population {
+  clients: ClientProfile[];
+  nextId: number;
+  colluderSeed: number; // Attackers often collude on similar data: they share one partition seed
+}
+
+const drawSeed = (rng: Rng) => Math.floor(rng.next() * 0x100000000);
+
+export const createPopulation = (config: PopulationConfig, rng: Rng): Population => {
+  const n = Math.max(1, Math.round(config.numClients));
+  const m = Math.min(n, Math.round(n * config.maliciousRatio));
+  const ids = Array.from({ length: n }, (_, i) => i);
+  let attackerIds = ids.slice(0, m);
+  if (config.attackerPlacement === 'random') {
+    // Partial Fisher-Yates: the first m entries become a uniform random subset
+    for (let k = 0; k < m; k++) {
+      const j = k + Math.floor(rng.next() * (n - k));
+      [ids[k], ids[j]] = [ids[j], ids[k]];
+    }
+    attackerIds = ids.slice(0, m);
+  }
+  const isAttacker = new Set(attackerIds);
+  const colluderSeed = drawSeed(rng);
+  return {
+    clients: Array.from({ length: n }, (_, i) => ({
+      id: i,
+      type: isAttacker.has(i) ? 'malicious' : 'benign',
+      partitionSeed: isAttacker.has(i) ? colluderSeed : drawSeed(rng),
+      joinedRound: 0
+    })),
+    nextId: n,
+    colluderSeed
+  };
+};
+
+// Churn: every client independently leaves with probability churnRate and is replaced
+export const churnPopulation = (population: Population, churnRate: number, round: number, rng: Rng): Population => {
+  if (churnRate <= 0) return population;
+  let nextId = population.nextId;
+  const clients = population.clients.map(c => {
+    if (rng.next() >= churnRate) return c;
+    const partitionSeed = c.type === 'malicious' ? population.colluderSeed : drawSeed(rng);
+    return { id: nextId++, type: c.type, partitionSeed, joinedRound: round };
+  });
+  return { ...population, clients, nextId };
+};
+
+export interface Participant {
+  profile: ClientProfile;
+  staleness: number; // 0 = trained on the current global model
+}
+
+// The clients that report this round: sampled without replacement, minus dropouts
+export const sampleParticipants = (population: Population, config: PopulationConfig, rng: Rng): Participant[] => {
+  const pool = [...population.clients];
+  const count = Math.max(1, Math.min(pool.length, Math.round(config.participation * pool.length)));
+  for (let k = 0; k < count; k++) {
+    const j = k + Math.floor(rng.next() * (pool.length - k));
+    [pool[k], pool[j]] = [pool[j], pool[k]];
+  }
+  return pool.slice(0, count)
+    .sort((a, b) => a.id - b.id)
+    .filter(() => rng.next() >= config.dropoutRate)
+    .map(profile => ({
+      profile,
+      staleness: profile.type === 'benign' && rng.next() < config.stragglerRate ? 1 + Math.floor(rng.next() * MAX_STALENESS) : 0
+    }));
+};
+
+export const isAttackActive = (config: PopulationConfig, round: number) =>
+  round >= config.attackStart && (config.attackEnd <= 0 || round <= config.attackEnd);
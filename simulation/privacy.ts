@@ -0,0 +1,119 @@
+import { Rng, Vector, createRng, mag, randomNormal } from './math';
+
+// --- Differential Privacy ---
+// Optional DP pipeline on the clients' updates. Every update is clipped to L2 norm `clipNorm`;
+// Gaussian noise with std noiseMultiplier * clipNorm is then added by each client to its own
+// update (local DP), or once by the server to the aggregate (central DP, scaled by
+// 1 / accepted updates: calibrated for their mean). Attackers are assumed to run the same client
+// software, so their updates are clipped (and in local DP noised) too.
+//
+// `placement` decides what the FIM defenses score: the privatized updates, or the raw ones with
+// clipping and local noise applied only to the accepted updates before aggregation. The latter
+// is not a deployable pipeline; it separates what DP does to detection from what it does to
+// the backdoor on its own.
+//
+// Accounting uses zero-concentrated DP: a Gaussian release with noise multiplier z costs
+// rho = 1 / (2 z^2), costs add up over rounds, and rho converts to
+// epsilon = rho + 2 sqrt(rho ln(1 / delta)). The noise multiplier is calibrated so that `rounds`
+// rounds spend exactly the target (epsilon, delta). No amplification by client sampling is
+// claimed, so the reported epsilon is an upper bound for clients that sit rounds out.
+
+export type PrivacyMode = 'off' | 'local' | 'central';
+
+export const PRIVACY_MODE_LABELS: Record<PrivacyMode, string> = {
+  off: 'Off (关闭)',
+  local: 'Local DP (客户端加噪)',
+  central: 'Central DP (服务器加噪)'
+};
+
+export type PrivacyPlacement = 'beforeDefense' | 'afterDefense';
+
+export const PRIVACY_PLACEMENT_LABELS: Record<PrivacyPlacement, string> = {
+  beforeDefense: 'Before FIM Defenses (检测前)',
+  afterDefense: 'After FIM Defenses (检测后)'
+};
+
+export interface PrivacyConfig {
+  mode: PrivacyMode;
+  placement: PrivacyPlacement; // Whether the defenses score privatized or raw updates
+  clipNorm: number; // Per-client L2 bound C (also the sensitivity the noise is scaled to)
+  epsilon: number; // Target epsilon for the whole run
+  delta: number; // Target delta
+  rounds: number; // Rounds the budget is spread over
+}
+
+export interface PrivacyParamSpec {
+  key: 'clipNorm' | 'epsilon' | 'rounds';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const PRIVACY_PARAMS: PrivacyParamSpec[] = [
+  { key: 'clipNorm', label: 'Clip Norm C (裁剪范数)', min: 0.05, max: 5, step: 0.05 },
+  { key: 'epsilon', label: 'Target ε (隐私预算)', min: 0.5, max: 100, step: 0.5 },
+  { key: 'rounds', label: 'Budget Rounds (预算轮数)', min: 1, max: 500, step: 1 }
+];
+
+// Choices offered for delta (the UI slider moves over the exponent)
+export const DELTA_EXPONENTS = { min: 3, max: 9 };
+
+export const DEFAULT_PRIVACY: PrivacyConfig = {
+  mode: 'off',
+  placement: 'beforeDefense',
+  clipNorm: 1,
+  epsilon: 8,
+  delta: 1e-5,
+  rounds: 100
+};
+
+// e.g. 'central:before'; 'off' when DP is off
+export const privacyLabel = (config: PrivacyConfig) =>
+  config.mode === 'off' ? 'off' : `${config.mode}:${config.placement === 'beforeDefense' ? 'before' : 'after'}`;
+
+// --- Accountant ---
+
+export interface PrivacyLedger {
+  rho: number; // zCDP cost spent so far
+  epsilon: number; // The same as epsilon at the delta of the last noisy round
+  noisyRounds: number;
+  noiseMultiplier: number; // Of the last noisy round
+}
+
+export const EMPTY_LEDGER: PrivacyLedger = { rho: 0, epsilon: 0, noisyRounds: 0, noiseMultiplier: 0 };
+
+export const epsilonOf = (rho: number, delta: number) => rho + 2 * Math.sqrt(rho * Math.log(1 / delta));
+
+// Inverse of epsilonOf: the zCDP cost a target (epsilon, delta) allows
+const rhoOf = (epsilon: number, delta: number) => {
+  const l = Math.log(1 / delta);
+  return (Math.sqrt(l + epsilon) - Math.sqrt(l)) ** 2;
+};
+
+export const noiseMultiplier = (config: PrivacyConfig) =>
+  Math.sqrt(Math.max(1, Math.round(config.rounds)) / (2 * rhoOf(config.epsilon, config.delta)));
+
+export const chargeRound = (ledger: PrivacyLedger, config: PrivacyConfig, z: number): PrivacyLedger => {
+  const rho = ledger.rho + 1 / (2 * z * z);
+  return { rho, epsilon: epsilonOf(rho, config.delta), noisyRounds: ledger.noisyRounds + 1, noiseMultiplier: z };
+};
+
+// --- Mechanisms ---
+
+// Noise comes from its own stream, derived from the round's PRNG state, so switching DP on
+// changes neither who participates nor what data they draw
+export const privacyRng = (rngState: number) => createRng((rngState ^ 0x5bd1e995) >>> 0);
+
+export const clipUpdate = (update: Vector, clipNorm: number): Vector => {
+  const norm = mag(update);
+  return norm <= clipNorm ? update : update.map(v => v * clipNorm / norm);
+};
+
+export const addNoise = (update: Vector, std: number, rng: Rng): Vector => update.map(v => v + std * randomNormal(rng));
+
+// What leaves a client: clipped, and in local DP noised with multiplier z
+export const privatizeUpdate = (update: Vector, config: PrivacyConfig, z: number, rng: Rng): Vector => {
+  const clipped = clipUpdate(update, config.clipNorm);
+  return config.mode === 'local' ? addNoise(clipped, z * config.clipNorm, rng) : clipped;
+};
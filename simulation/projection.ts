@@ -0,0 +1,163 @@
+// --- 2D Projections of Client Updates ---
+// Used by the scatter view only; detection never looks at the projected coordinates.
+// Large models are sketched down to SKETCH_DIM coordinates first.
+// All methods are deterministic so the picture does not jitter between re-renders.
+
+export type Point2D = [number, number];
+
+export type ProjectionMethod = 'pca' | 'tsne';
+
+export const PROJECTION_LABELS: Record<ProjectionMethod, string> = {
+  pca: 'PCA',
+  tsne: 't-SNE'
+};
+
+export interface Projection {
+  points: Point2D[];
+  explained?: Point2D; // PCA: share of variance captured by PC1 / PC2
+}
+
+// Longer vectors are compressed to this many coordinates before projecting
+const SKETCH_DIM = 2048;
+
+// Signed feature hashing (count sketch): coordinate i is added to bucket h(i) with sign s(i),
+// which keeps inner products, and so the projected geometry, in expectation
+const hashCoordinate = (i: number) => {
+  let h = Math.imul(i ^ 0x9e3779b9, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// Center the vectors and scale coordinate i by sqrt(w_i), so plain dot products
+// become the weighted inner product sum_i w_i a_i b_i the defense uses
+const prepare = (vectors: ArrayLike<number>[], weights?: ArrayLike<number>): number[][] => {
+  const dim = vectors[0].length;
+  const width = Math.min(dim, SKETCH_DIM);
+  const mean = new Float64Array(dim);
+  vectors.forEach(v => { for (let i = 0; i < dim; i++) mean[i] += v[i] / vectors.length; });
+  return vectors.map(v => {
+    const row: number[] = Array(width).fill(0);
+    for (let i = 0; i < dim; i++) {
+      const x = (v[i] - mean[i]) * (weights ? Math.sqrt(Math.max(0, weights[i])) : 1);
+      if (width === dim) {
+        row[i] = x;
+      } else {
+        const h = hashCoordinate(i);
+        row[h % width] += h & 0x80000000 ? -x : x;
+      }
+    }
+    return row;
+  });
+};
+
+const gram = (rows: number[][]): number[][] =>
+  rows.map(a => rows.map(b => a.reduce((acc, x, i) => acc + x * b[i], 0)));
+
+// Leading eigenpairs of a symmetric PSD matrix by power iteration with deflation
+const topEigen = (matrix: number[][], count: number) => {
+  const n = matrix.length;
+  let m = matrix.map(row => [...row]);
+  const pairs: { value: number; vector: number[] }[] = [];
+  for (let c = 0; c < count; c++) {
+    let v = Array.from({ length: n }, (_, i) => Math.sin(i + 1 + c)); // Fixed, generic start
+    let value = 0;
+    for (let iter = 0; iter < 200; iter++) {
+      const next = m.map(row => row.reduce((acc, x, j) => acc + x * v[j], 0));
+      const norm = Math.sqrt(next.reduce((acc, x) => acc + x * x, 0));
+      if (norm === 0) break;
+      v = next.map(x => x / norm);
+      value = norm;
+    }
+    // Fix the sign so the axis does not flip between rounds without reason
+    const pivot = v.reduce((best, x, i) => Math.abs(x) > Math.abs(v[best]) ? i : best, 0);
+    if (v[pivot] < 0) v = v.map(x => -x);
+    pairs.push({ value, vector: v });
+    m = m.map((row, i) => row.map((x, j) => x - value * v[i] * v[j]));
+  }
+  return pairs;
+};
+
+// PCA through the n x n Gram matrix (n clients << parameter dimension)
+export const pca = (vectors: ArrayLike<number>[], weights?: ArrayLike<number>): Projection => {
+  if (vectors.length === 0) return { points: [] };
+  const g = gram(prepare(vectors, weights));
+  const total = g.reduce((acc, row, i) => acc + row[i], 0);
+  const [pc1, pc2] = topEigen(g, 2);
+  return {
+    points: vectors.map((_, i) => [pc1.vector[i] * Math.sqrt(pc1.value), pc2.vector[i] * Math.sqrt(pc2.value)]),
+    explained: total > 0 ? [pc1.value / total, pc2.value / total] : [0, 0]
+  };
+};
+
+// Exact t-SNE (van der Maaten & Hinton), initialised from the PCA layout
+export const tsne = (vectors: ArrayLike<number>[], weights?: ArrayLike<number>, perplexity = 5, iterations = 400): Projection => {
+  const n = vectors.length;
+  if (n < 3) return pca(vectors, weights);
+  const rows = prepare(vectors, weights);
+  const dist = rows.map(a => rows.map(b => a.reduce((acc, x, i) => acc + (x - b[i]) * (x - b[i]), 0)));
+
+  // Conditional affinities: per-point Gaussian bandwidth matched to the perplexity
+  const targetEntropy = Math.log(Math.min(perplexity, (n - 1) / 3));
+  const cond = dist.map((row, i) => {
+    const scale = Math.max(...row) || 1; // Keeps beta in a sane range whatever the update scale
+    let lo = 0, hi = Infinity, beta = 1;
+    let p: number[] = [];
+    for (let iter = 0; iter < 50; iter++) {
+      p = row.map((d, j) => j === i ? 0 : Math.exp(-beta * d / scale));
+      const sum = p.reduce((a, b) => a + b, 0) || 1e-12;
+      p = p.map(x => x / sum);
+      const entropy = -p.reduce((acc, x) => acc + (x > 0 ? x * Math.log(x) : 0), 0);
+      if (entropy > targetEntropy) { lo = beta; beta = hi === Infinity ? beta * 2 : (beta + hi) / 2; }
+      else { hi = beta; beta = (lo + beta) / 2; }
+    }
+    return p;
+  });
+  const P = cond.map((row, i) => row.map((x, j) => Math.max((x + cond[j][i]) / (2 * n), 1e-12)));
+
+  // Gradient descent with momentum and early exaggeration
+  const init = pca(vectors, weights).points;
+  const spread = Math.sqrt(init.reduce((acc, [x, y]) => acc + x * x + y * y, 0) / n) || 1;
+  let Y = init.map(([x, y]) => [x / spread, y / spread]);
+  let velocity = Y.map(() => [0, 0]);
+  const learningRate = Math.max(n / 4, 10);
+  for (let iter = 0; iter < iterations; iter++) {
+    const exaggeration = iter < 100 ? 4 : 1;
+    const momentum = iter < 100 ? 0.5 : 0.8;
+    const num = Y.map(a => Y.map(b => 1 / (1 + (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2)));
+    const qSum = num.reduce((acc, row, i) => acc + row.reduce((s, x, j) => s + (i === j ? 0 : x), 0), 0);
+    const grad = Y.map((a, i) => {
+      const g = [0, 0];
+      Y.forEach((b, j) => {
+        if (i === j) return;
+        const coeff = 4 * (exaggeration * P[i][j] - num[i][j] / qSum) * num[i][j];
+        g[0] += coeff * (a[0] - b[0]);
+        g[1] += coeff * (a[1] - b[1]);
+      });
+      return g;
+    });
+    velocity = velocity.map((v, i) => [momentum * v[0] - learningRate * grad[i][0], momentum * v[1] - learningRate * grad[i][1]]);
+    Y = Y.map((y, i) => [y[0] + velocity[i][0], y[1] + velocity[i][1]]);
+  }
+  return { points: Y.map(([x, y]) => [x, y]) };
+};
+
+export const project = (method: ProjectionMethod, vectors: ArrayLike<number>[], weights?: ArrayLike<number>): Projection =>
+  method === 'pca' ? pca(vectors, weights) : tsne(vectors, weights);
+
+// Convex hull (Andrew's monotone chain), counter-clockwise and closed (first point repeated)
+export const convexHull = (points: Point2D[]): Point2D[] => {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: Point2D, a: Point2D, b: Point2D) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const half = (pts: Point2D[]) => {
+    const chain: Point2D[] = [];
+    pts.forEach(p => {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], p) <= 0) chain.pop();
+      chain.push(p);
+    });
+    return chain.slice(0, -1);
+  };
+  const hull = [...half(sorted), ...half([...sorted].reverse())];
+  return [...hull, hull[0]];
+};
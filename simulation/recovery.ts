@@ -0,0 +1,310 @@
+import { Vector, zeros, median } from './math';
+
+// --- Global Model Recovery ---
+// What the server does once a malicious update got through. It keeps a checkpoint of the
+// global model and FIM after every round of a recent window, with the violation points each
+// participant earned in it. Two responses are offered:
+//
+// - Rollback watches for anomalies in the rounds it accepted: a sudden FIM drift, rising
+//   stiffness scores among the accepted clients, or (an oracle a real server lacks) an ASR
+//   spike. On one it restores the newest clean checkpoint at least `rewind` rounds back; the
+//   rounds of training after it are lost. An attack that keeps going would poison the restored
+//   model again straight away, so after a rollback anomalies are ignored for `backoff` rounds,
+//   doubling with every further rollback before a clean round is seen; once the clean
+//   checkpoints have left the window there is nothing to restore and the rollbacks stop.
+// - Unlearning waits until a client has earned `unlearnAfter` violation points within the
+//   checkpoint window (older points expire, so the false positives every honest client collects
+//   now and then do not add up over a long run). It then subtracts that client's contributions
+//   from the global model: the server keeps one running sum per client of its accepted updates
+//   weighted by their aggregation shares, since the client was last unlearned. The rest of
+//   those rounds' aggregates is not re-weighted, the robust rules' weights are only influence
+//   shares, later rounds trained on the unpurged model are not corrected and the FIM keeps what
+//   it learned, so this is an approximation, not an exact removal. The client's points are
+//   spent: it has to earn them again before its next contributions are unlearned.
+//
+// Reputation, the privacy ledger and the round counter are never rolled back: the server
+// keeps what it learned about its clients, and budget spent stays spent.
+
+export type RecoveryMode = 'off' | 'rollback' | 'unlearn';
+
+export const RECOVERY_MODE_LABELS: Record<RecoveryMode, string> = {
+  off: 'Off (关闭)',
+  rollback: 'Rollback on Anomaly (异常回滚)',
+  unlearn: 'Unlearn Flagged Clients (遗忘可疑客户端)'
+};
+
+export interface RecoveryConfig {
+  mode: RecoveryMode;
+  window: number; // Rounds of checkpoints kept (unlearning: rounds violation points count for)
+  fimDrift: number; // Anomaly: this round's FIM change exceeds fimDrift x its recent median (0 = off)
+  stiffnessRise: number; // Anomaly: the highest accepted stiffness score exceeds stiffnessRise x its recent median (0 = off)
+  asrSpike: number; // Anomaly: ASR rose by more than this since the last round (0 = off)
+  rewind: number; // Rollback: rounds undone at least, the anomalous one included
+  backoff: number; // Rollback: rounds anomalies are ignored after a rollback, doubled per consecutive one (0 = none)
+  unlearnAfter: number; // Unlearning: violation points within the window that make a client's contributions removed
+}
+
+export interface RecoveryParamSpec {
+  key: Exclude<keyof RecoveryConfig, 'mode'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  modes: RecoveryMode[]; // Modes the setting applies to
+}
+
+export const RECOVERY_PARAMS: RecoveryParamSpec[] = [
+  { key: 'window', label: 'Checkpoint Window (检查点轮数)', min: 2, max: 50, step: 1, modes: ['rollback', 'unlearn'] },
+  { key: 'fimDrift', label: 'FIM Drift × Median (FIM 漂移, 0 = 关)', min: 0, max: 10, step: 0.5, modes: ['rollback'] },
+  { key: 'stiffnessRise', label: 'Accepted Stiffness × Median (刚度上升, 0 = 关)', min: 0, max: 10, step: 0.5, modes: ['rollback'] },
+  { key: 'asrSpike', label: 'ASR Spike (ASR 突增, 0 = 关)', min: 0, max: 1, step: 0.05, modes: ['rollback'] },
+  { key: 'rewind', label: 'Rewind Rounds (回滚轮数)', min: 1, max: 20, step: 1, modes: ['rollback'] },
+  { key: 'backoff', label: 'Rollback Backoff Rounds (回滚退避轮数)', min: 0, max: 10, step: 1, modes: ['rollback'] },
+  { key: 'unlearnAfter', label: 'Unlearn After Violation Points (遗忘阈值)', min: 0.5, max: 10, step: 0.5, modes: ['unlearn'] }
+];
+
+export const DEFAULT_RECOVERY: RecoveryConfig = {
+  mode: 'off',
+  window: 10,
+  fimDrift: 2.5,
+  stiffnessRise: 1.5,
+  asrSpike: 0,
+  rewind: 2,
+  backoff: 2,
+  unlearnAfter: 4
+};
+
+// Earlier rounds a drift or stiffness ratio needs before it can fire
+const MIN_BASELINE = 3;
+
+// e.g. 'rollback', 'unlearn'
+export const recoveryLabel = (config: RecoveryConfig) => config.mode;
+
+// One accepted update and its share of the round's aggregate
+export interface AcceptedUpdate {
+  id: number;
+  update: Vector;
+  weight: number;
+}
+
+// A client's accepted updates since it was last unlearned, summed weighted by their shares
+export interface Contribution {
+  sum: Vector;
+  rounds: number;
+}
+
+export interface RecoveryCheckpoint {
+  round: number; // State after this round
+  model: Vector;
+  fim: Vector;
+  acc: number;
+  asr: number;
+  violations: Record<number, number>; // Violation points the round's participants earned (not yet spent on unlearning)
+  drift: number; // Relative L1 change of the FIM in the round (NaN when it was not re-estimated)
+  stiffness: number; // Highest stiffness score among the accepted clients (NaN without any)
+  anomalous: boolean;
+  resumed: boolean; // Recorded by a rollback: the restored state again (never restored itself)
+}
+
+export interface RecoveryEvent {
+  round: number;
+  kind: 'rollback' | 'unlearn';
+  reason: string; // What triggered it, e.g. "FIM drift ×5.2"
+  restoredRound: number; // Rollback: round whose checkpoint was restored
+  roundsLost: number; // Rollback: rounds of training undone
+  clients: number[]; // Unlearning: ids whose contributions were removed
+  removed: number; // Unlearning: client-rounds removed
+  accBefore: number; // Metrics of the model the event replaced
+  asrBefore: number;
+}
+
+export interface RecoveryLedger {
+  checkpoints: RecoveryCheckpoint[]; // Oldest first, at most `window`
+  events: RecoveryEvent[]; // Every event of the run
+  roundsLost: number; // Summed over the rollbacks
+  streak: number; // Rollbacks since the last round without an anomaly
+  cooldownUntil: number; // Last round whose anomalies are ignored after the latest rollback
+  contributions: Record<number, Contribution>; // Per client id (only kept while unlearning)
+}
+
+export const EMPTY_RECOVERY: RecoveryLedger = {
+  checkpoints: [], events: [], roundsLost: 0, streak: 0, cooldownUntil: 0, contributions: {}
+};
+
+// The state a run starts from is its first checkpoint
+export const initialRecovery = (model: Vector, fim: Vector, acc: number, asr: number): RecoveryLedger => ({
+  ...EMPTY_RECOVERY,
+  checkpoints: [{ round: 0, model, fim, acc, asr, violations: {}, drift: NaN, stiffness: NaN, anomalous: false, resumed: false }]
+});
+
+export const fimDrift = (before: Vector, after: Vector): number => {
+  let change = 0, total = 0;
+  for (let i = 0; i < before.length; i++) {
+    change += Math.abs(after[i] - before[i]);
+    total += Math.abs(before[i]);
+  }
+  return total > 0 ? change / total : NaN;
+};
+
+// What the server knows after aggregating a round and evaluating the new model
+export interface RecoveryRound {
+  round: number;
+  model: Vector;
+  fim: Vector;
+  drift: number;
+  stiffness: number;
+  acc: number;
+  asr: number;
+  accepted: AcceptedUpdate[];
+  violations: Record<number, number>; // Violation points earned this round, per participant id
+  registered: number[]; // Client ids in the population (the sums of clients that left are dropped)
+}
+
+export interface RecoveryResult {
+  model: Vector;
+  fim: Vector;
+  acc: number;
+  asr: number;
+  recentModels: Vector[] | null; // Rollback: the models stragglers train on from now (null = unchanged)
+  ledger: RecoveryLedger;
+  event: RecoveryEvent | null;
+}
+
+const ratio = (value: number, history: number[]) => {
+  const finite = history.filter(v => Number.isFinite(v));
+  if (!Number.isFinite(value) || finite.length < MIN_BASELINE) return NaN;
+  const base = median(finite);
+  return base > 0 ? value / base : NaN;
+};
+
+// Why the round looks anomalous ('' when it does not)
+const anomalyReason = (config: RecoveryConfig, ledger: RecoveryLedger, input: RecoveryRound): string => {
+  const previous = ledger.checkpoints[ledger.checkpoints.length - 1];
+  const drift = ratio(input.drift, ledger.checkpoints.map(c => c.drift));
+  const stiffness = ratio(input.stiffness, ledger.checkpoints.map(c => c.stiffness));
+  const reasons = [
+    config.fimDrift > 0 && drift > config.fimDrift ? `FIM drift ×${drift.toFixed(1)}` : '',
+    config.stiffnessRise > 0 && stiffness > config.stiffnessRise ? `stiffness ×${stiffness.toFixed(1)}` : '',
+    config.asrSpike > 0 && previous && input.asr - previous.asr > config.asrSpike ? `ASR +${(input.asr - previous.asr).toFixed(2)}` : ''
+  ];
+  return reasons.filter(Boolean).join(', ');
+};
+
+const keep = (checkpoints: RecoveryCheckpoint[], config: RecoveryConfig) =>
+  checkpoints.slice(-Math.max(2, Math.round(config.window)));
+
+// Record the round and respond to it. `evaluate` is only called when unlearning changed the model.
+export const recoverRound = (
+  config: RecoveryConfig,
+  ledger: RecoveryLedger,
+  input: RecoveryRound,
+  evaluate: (model: Vector) => { acc: number; asr: number },
+  serverLr: number
+): RecoveryResult => {
+  const unchanged = { model: input.model, fim: input.fim, acc: input.acc, asr: input.asr, recentModels: null, event: null };
+  const reason = config.mode === 'rollback' ? anomalyReason(config, ledger, input) : '';
+  const checkpoint: RecoveryCheckpoint = {
+    round: input.round,
+    model: input.model,
+    fim: input.fim,
+    acc: input.acc,
+    asr: input.asr,
+    violations: input.violations,
+    drift: input.drift,
+    stiffness: input.stiffness,
+    anomalous: reason !== '',
+    resumed: false
+  };
+  // Switched off, the checkpoints go (and are collected again once switched back on)
+  if (config.mode === 'off') return { ...unchanged, ledger: { ...ledger, checkpoints: [], streak: 0, contributions: {} } };
+
+  if (config.mode === 'rollback') {
+    const clean = ledger.checkpoints.filter(c => !c.anomalous && !c.resumed);
+    const restored = reason === '' || input.round <= ledger.cooldownUntil ? undefined
+      : clean.filter(c => c.round <= input.round - Math.max(1, Math.round(config.rewind))).pop() ?? clean[0];
+    if (!restored) {
+      const streak = reason === '' ? 0 : ledger.streak;
+      return {
+        ...unchanged,
+        ledger: { ...ledger, streak, checkpoints: keep([...ledger.checkpoints, checkpoint], config), contributions: {} }
+      };
+    }
+    // The current round and every trained round after the restored one (a repeated rollback
+    // does not lose the rounds an earlier one already undid)
+    const roundsLost = 1 + ledger.checkpoints.filter(c => c.round > restored.round && !c.resumed).length;
+    const event: RecoveryEvent = {
+      round: input.round, kind: 'rollback', reason, restoredRound: restored.round, roundsLost,
+      clients: [], removed: 0, accBefore: input.acc, asrBefore: input.asr
+    };
+    // The rounds after the restored one are gone; the current round continues from its state
+    const kept = ledger.checkpoints.filter(c => c.round <= restored.round);
+    const resumed: RecoveryCheckpoint = {
+      ...restored, round: input.round, violations: {}, drift: NaN, stiffness: NaN, resumed: true
+    };
+    return {
+      model: restored.model,
+      fim: restored.fim,
+      acc: restored.acc,
+      asr: restored.asr,
+      recentModels: kept.slice(0, -1).reverse().map(c => c.model),
+      ledger: {
+        checkpoints: keep([...kept, resumed], config),
+        events: [...ledger.events, event],
+        roundsLost: ledger.roundsLost + roundsLost,
+        streak: ledger.streak + 1,
+        cooldownUntil: input.round + Math.max(0, Math.round(config.backoff)) * 2 ** ledger.streak,
+        contributions: {}
+      },
+      event
+    };
+  }
+
+  // Unlearning: fold the round's accepted updates into the per-client sums, then subtract the
+  // sums of the clients with enough violation points in the window
+  const contributions: Record<number, Contribution> = Object.fromEntries(input.registered.flatMap(id => {
+    const c = ledger.contributions[id];
+    const mine = input.accepted.filter(u => u.id === id);
+    if (mine.length === 0) return c ? [[id, c]] : [];
+    const sum = c ? c.sum.slice() : zeros(input.model.length);
+    mine.forEach(u => {
+      for (let i = 0; i < sum.length; i++) sum[i] += u.weight * u.update[i];
+    });
+    return [[id, { sum, rounds: (c?.rounds ?? 0) + mine.length }]];
+  }));
+  const checkpoints = keep([...ledger.checkpoints, checkpoint], config);
+  const points: Record<number, number> = {};
+  checkpoints.forEach(c => Object.entries(c.violations).forEach(([id, v]) => points[Number(id)] = (points[Number(id)] ?? 0) + v));
+  const clients = Object.keys(points).map(Number)
+    .filter(id => points[id] >= config.unlearnAfter && contributions[id])
+    .sort((a, b) => a - b);
+  if (clients.length === 0) return { ...unchanged, ledger: { ...ledger, checkpoints, contributions } };
+
+  const model = input.model.slice();
+  let removed = 0;
+  clients.forEach(id => {
+    const { sum, rounds } = contributions[id];
+    for (let i = 0; i < model.length; i++) model[i] += serverLr * sum[i];
+    removed += rounds;
+    delete contributions[id];
+  });
+  const { acc, asr } = evaluate(model);
+  const event: RecoveryEvent = {
+    round: input.round, kind: 'unlearn', reason: `${clients.length} flagged client${clients.length === 1 ? '' : 's'}`,
+    restoredRound: input.round, roundsLost: 0, clients, removed,
+    accBefore: input.acc, asrBefore: input.asr
+  };
+  // The unlearned clients' points are spent, and the current round's checkpoint holds the purged model
+  const spent = checkpoints.map(c => ({
+    ...c, violations: Object.fromEntries(Object.entries(c.violations).filter(([id]) => !clients.includes(Number(id))))
+  }));
+  spent[spent.length - 1] = { ...spent[spent.length - 1], model, acc, asr };
+  return {
+    model,
+    fim: input.fim,
+    acc,
+    asr,
+    recentModels: null,
+    ledger: { ...ledger, checkpoints: spent, events: [...ledger.events, event], contributions },
+    event
+  };
+};
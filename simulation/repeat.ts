@@ -0,0 +1,131 @@
+import { SimulationConfig, SimulationState } from './types';
+import { createInitialState, runRound } from './engine';
+import { DefenseToggles, defenseLabel } from './ablation';
+import { RunLog, RunPoint, appendRound, createRunLog } from './runlog';
+import { MeanCI, PairedTest, meanCI, pairedTest } from './statistics';
+
+// --- Multi-Seed Repeats ---
+// One run is one noisy curve. A repeat runs each configuration over the same K seeds, logs
+// every round of every run (runlog.ts) and reports per-round means with 95% confidence bands,
+// plus paired tests between two configurations on the runs' final metrics. A finished round's
+// bands never change, so each is computed once, when the round is run.
+// Seed k of configuration A and seed k of B see the same participants and data, so the tests pair them.
+
+export type RepeatMetric = 'acc' | 'asr' | 'recall' | 'fpr';
+
+export const REPEAT_METRICS: RepeatMetric[] = ['acc', 'asr', 'recall', 'fpr'];
+
+export const MAX_REPEAT_SEEDS = 30;
+
+// Detection rates of a round without attackers (or without honest clients) are undefined,
+// not 0, so they do not drag the mean down; NaN is skipped by the statistics
+const metricOf = (point: RunPoint, metric: RepeatMetric): number => {
+  const { tp, fp, tn, fn, recall, fpr } = point.detection;
+  switch (metric) {
+    case 'acc': return point.acc;
+    case 'asr': return point.asr;
+    case 'recall': return tp + fn > 0 ? recall : NaN;
+    case 'fpr': return fp + tn > 0 ? fpr : NaN;
+  }
+};
+
+// What a run is compared on: accuracy and ASR after its last round, detection rates pooled over
+// every round (a final round often has no attackers in it)
+export const finalMetrics = ({ points, detection: pooled }: Pick<RunLog, 'points' | 'detection'>): Record<RepeatMetric, number> => {
+  const last = points[points.length - 1];
+  return {
+    acc: last?.acc ?? NaN,
+    asr: last?.asr ?? NaN,
+    recall: pooled.tp + pooled.fn > 0 ? pooled.recall : NaN,
+    fpr: pooled.fp + pooled.tn > 0 ? pooled.fpr : NaN
+  };
+};
+
+// Seeds seed, seed + 1, ... so a repeat is reproducible from the one seed shown in the UI
+export const repeatSeeds = (seed: number, count: number): number[] =>
+  Array.from({ length: count }, (_, k) => (seed + k) >>> 0);
+
+export interface RepeatRun {
+  label: string; // defenseLabel of the configuration
+  toggles: DefenseToggles;
+  seed: number;
+  state: SimulationState;
+  log: RunLog; // Every round so far (appended in place)
+}
+
+// Mean and CI of a round across the seeds of one configuration
+export interface RepeatBand {
+  round: number;
+  metrics: Record<RepeatMetric, MeanCI>;
+}
+
+export interface Repeat {
+  runs: RepeatRun[];
+  bands: Record<string, RepeatBand[]>; // Per configuration label, one per finished round (appended in place)
+}
+
+export const EMPTY_REPEAT: Repeat = { runs: [], bands: {} };
+
+export const createRepeat = (seed: number, count: number, config: SimulationConfig, variants: DefenseToggles[]): Repeat => ({
+  runs: variants.flatMap(toggles => repeatSeeds(seed, count).map(runSeed => ({
+    label: defenseLabel(toggles),
+    toggles,
+    seed: runSeed,
+    state: createInitialState(runSeed, { ...config, ...toggles }),
+    log: createRunLog()
+  }))),
+  bands: Object.fromEntries(variants.map(toggles => [defenseLabel(toggles), []]))
+});
+
+const byMetric = <T>(value: (metric: RepeatMetric) => T): Record<RepeatMetric, T> =>
+  Object.fromEntries(REPEAT_METRICS.map(metric => [metric, value(metric)])) as Record<RepeatMetric, T>;
+
+// One round for every run, then the new round's band per configuration; `config` supplies
+// everything except the defense toggles
+export const stepRepeat = (config: SimulationConfig, repeat: Repeat): Repeat => {
+  const runs = repeat.runs.map(run => {
+    const state = runRound({ ...config, ...run.toggles }, run.state);
+    appendRound(run.log, state);
+    return { ...run, state };
+  });
+  Object.entries(repeat.bands).forEach(([label, bands]) => {
+    const group = runs.filter(run => run.label === label);
+    const points = group.map(run => run.log.points[run.log.points.length - 1]);
+    bands.push({ round: points[0].round, metrics: byMetric(metric => meanCI(points.map(p => metricOf(p, metric)))) });
+  });
+  return { ...repeat, runs };
+};
+
+export interface RepeatVariantSummary {
+  label: string;
+  seeds: number[];
+  bands: RepeatBand[]; // Per round, across seeds
+  finals: Record<RepeatMetric, number[]>; // Per seed, in `seeds` order
+  final: Record<RepeatMetric, MeanCI>;
+}
+
+export interface RepeatSummary {
+  round: number;
+  variants: RepeatVariantSummary[];
+  tests: Record<RepeatMetric, PairedTest> | null; // Second configuration minus the first (null with fewer than two)
+}
+
+export const summarizeRepeat = ({ runs, bands }: Repeat): RepeatSummary => {
+  const labels = Array.from(new Set(runs.map(run => run.label)));
+  const variants = labels.map(label => {
+    const group = runs.filter(run => run.label === label);
+    const finals = group.map(run => finalMetrics(run.log));
+    return {
+      label,
+      seeds: group.map(run => run.seed),
+      bands: bands[label],
+      finals: byMetric(metric => finals.map(f => f[metric])),
+      final: byMetric(metric => meanCI(finals.map(f => f[metric])))
+    };
+  });
+  return {
+    round: runs[0]?.state.round ?? 0,
+    variants,
+    tests: variants.length < 2 ? null : byMetric(metric => pairedTest(variants[0].finals[metric], variants[1].finals[metric]))
+  };
+};
@@ -0,0 +1,330 @@
+import { ClientType, SimulationConfig, SimulationState } from './types';
+import { createInitialState, serveRound } from './engine';
+import { LayerKind, ModelSpec } from './model';
+import { initialRecovery } from './recovery';
+import { Vector, createRng, zeros } from './math';
+
+// --- Imported Gradient Dumps ---
+// Client updates exported from a real training run (PyTorch, TensorFlow, ...) replayed through
+// the server side of the simulator: the same stiffness mask, clustering, reputation, DP and
+// aggregation as simulated rounds, rendered in the same panels. A dump is either one JSON file
+// or a directory:
+//
+//   manifest.json          optional: { name, layers: [{ name, shape }], malicious: [ids] }
+//   fim.npy | fim.json     optional FIM for every round without its own
+//   round_001/             one directory per round, replayed in the order of their numbers
+//     client_0.npy         one update per client; the id is the last number in the file name
+//     labels.json          optional ground truth: { "malicious": [ids] } or [ids]
+//     fim.npy | fim.json   optional FIM this round is scored with
+//     root.npy | root.json optional server update on clean data ('reference' thresholds, FLTrust)
+//     metrics.json         optional { acc, asr } of the real run's global model after the round
+//
+// A JSON file holds the same: { name, layers, malicious, fim, rounds: [{ clients: [{ id,
+// update, malicious, samples }], fim, root, metrics }] }. Vectors are the parameters flattened
+// in layer order: .npy arrays (float32/float64, any shape) or JSON arrays (nested allowed), or
+// in JSON an object of per-layer arrays keyed by layer name.
+
+export interface DumpFile {
+  path: string; // Relative to the dump root, '/'-separated
+  bytes: Uint8Array;
+}
+
+export interface ImportedClient {
+  id: number;
+  update: Vector;
+  malicious: boolean;
+  samples: number; // FedAvg weight (1 when not given)
+}
+
+export interface ImportedRound {
+  source: string; // Directory or JSON entry the round came from
+  clients: ImportedClient[];
+  fim?: Vector;
+  root?: Vector;
+  metrics?: { acc: number; asr: number };
+}
+
+export interface GradientDump {
+  name: string;
+  spec: ModelSpec;
+  rounds: ImportedRound[];
+  labelled: boolean; // Ground-truth malicious labels were given
+}
+
+const fail = (message: string): never => {
+  throw new Error(`Import: ${message}`);
+};
+
+// --- .npy Files ---
+
+const NPY_MAGIC = '\x93NUMPY';
+
+// Little-endian float arrays in C order (what np.save writes for float32/float64 tensors), flattened
+export const parseNpy = (bytes: Uint8Array, path: string): Float32Array => {
+  const text = (from: number, to: number) => String.fromCharCode(...bytes.subarray(from, to));
+  if (bytes.length < 10 || text(0, 6) !== NPY_MAGIC) fail(`${path} is not an .npy file`);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const major = bytes[6];
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const dataStart = (major === 1 ? 10 : 12) + headerLength;
+  const header = text(dataStart - headerLength, dataStart);
+  const descr = /'descr':\s*'([^']+)'/.exec(header)?.[1];
+  const fortran = /'fortran_order':\s*True/.test(header);
+  const shape = (/'shape':\s*\(([^)]*)\)/.exec(header)?.[1] ?? '').split(',').map(s => s.trim()).filter(Boolean).map(Number);
+  const count = shape.reduce((a, b) => a * b, 1);
+  if (fortran && shape.filter(n => n > 1).length > 1) fail(`${path} is in Fortran order; save it with np.ascontiguousarray`);
+  const width = descr === '<f4' ? 4 : descr === '<f8' ? 8 : fail(`${path} has dtype ${descr}; expected little-endian float32 or float64`);
+  if (bytes.length - dataStart < count * width) fail(`${path} is truncated`);
+  const out = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    out[i] = width === 4 ? view.getFloat32(dataStart + 4 * i, true) : view.getFloat64(dataStart + 8 * i, true);
+  }
+  return out;
+};
+
+// --- Parsing ---
+
+interface LayerLayout {
+  name: string;
+  shape: number[];
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const flatten = (value: unknown, where: string, out: number[] = []): number[] => {
+  if (Array.isArray(value)) value.forEach(v => flatten(v, where, out));
+  else if (typeof value === 'number' && Number.isFinite(value)) out.push(value);
+  else fail(`${where} contains ${JSON.stringify(value)}; expected numbers`);
+  return out;
+};
+
+// A flat (or nested) array, or per-layer arrays keyed by layer name
+const toVector = (value: unknown, layers: LayerLayout[] | undefined, where: string): Vector => {
+  if (!isRecord(value)) return Float32Array.from(flatten(value, where));
+  if (!layers) return fail(`${where} is keyed by layer, but no layers were declared`);
+  const unknown = Object.keys(value).find(key => !layers.some(l => l.name === key));
+  if (unknown) fail(`${where} has unknown layer "${unknown}"`);
+  return Float32Array.from(layers.flatMap(l => value[l.name] === undefined ? fail(`${where} is missing layer "${l.name}"`) : flatten(value[l.name], `${where}.${l.name}`)));
+};
+
+const parseJSON = (file: DumpFile): unknown => {
+  try {
+    return JSON.parse(new TextDecoder().decode(file.bytes));
+  } catch (err) {
+    return fail(`${file.path} is not valid JSON (${err instanceof Error ? err.message : err})`);
+  }
+};
+
+const readVector = (file: DumpFile, layers: LayerLayout[] | undefined): Vector =>
+  file.path.endsWith('.npy') ? parseNpy(file.bytes, file.path) : toVector(parseJSON(file), layers, file.path);
+
+const parseLayers = (raw: unknown): LayerLayout[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw) || raw.length === 0) return fail('"layers" must be a non-empty list of { name, shape }');
+  return raw.map((l, k) => {
+    if (!isRecord(l) || typeof l.name !== 'string' || !Array.isArray(l.shape) || !l.shape.every(n => Number.isInteger(n) && n > 0)) {
+      return fail(`layer ${k} must be { "name": string, "shape": [positive integers] }`);
+    }
+    return { name: l.name, shape: l.shape as number[] };
+  });
+};
+
+const parseIds = (raw: unknown, where: string): number[] => {
+  const ids = isRecord(raw) ? raw.malicious : raw;
+  if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id))) return fail(`${where} must list malicious client ids`);
+  return ids as number[];
+};
+
+const parseMetrics = (raw: unknown, where: string) => {
+  if (!isRecord(raw) || typeof raw.acc !== 'number' || typeof raw.asr !== 'number') return fail(`${where} must be { "acc": number, "asr": number }`);
+  return { acc: raw.acc, asr: raw.asr };
+};
+
+// Imported layouts only name layers; the kind is guessed from the name and rank for display
+const layerKind = (layer: LayerLayout): LayerKind =>
+  /bias/i.test(layer.name) || layer.shape.length === 1 ? 'bias' : layer.shape.length >= 3 ? 'conv' : 'dense';
+
+const buildSpec = (layers: LayerLayout[]): ModelSpec => {
+  let offset = 0;
+  const specLayers = layers.map(l => {
+    const size = l.shape.reduce((a, b) => a * b, 1);
+    const layer = { name: l.name, kind: layerKind(l), shape: l.shape, offset, size };
+    offset += size;
+    return layer;
+  });
+  return { architecture: 'imported', layers: specLayers, ops: [], dim: offset };
+};
+
+// Without declared layers every parameter sits in one layer
+const finish = (name: string, layers: LayerLayout[] | undefined, rounds: ImportedRound[], labelled: boolean): GradientDump => {
+  if (rounds.length === 0) fail('no rounds with client updates found');
+  const first = rounds.find(r => r.clients.length > 0)?.clients[0].update ?? fail('no client updates found');
+  const spec = buildSpec(layers ?? [{ name: 'params', shape: [first.length] }]);
+  rounds.forEach(r => {
+    const check = (v: Vector | undefined, what: string) => {
+      if (v && v.length !== spec.dim) fail(`${r.source}: ${what} has ${v.length} values, expected ${spec.dim}`);
+    };
+    r.clients.forEach(c => check(c.update, `client ${c.id}`));
+    check(r.fim, 'the FIM');
+    check(r.root, 'the root update');
+    const ids = new Set<number>();
+    r.clients.forEach(c => ids.has(c.id) ? fail(`${r.source}: client ${c.id} appears twice`) : ids.add(c.id));
+  });
+  return { name, spec, rounds, labelled };
+};
+
+const parseJSONDump = (file: DumpFile): GradientDump => {
+  const raw = parseJSON(file);
+  if (!isRecord(raw) || !Array.isArray(raw.rounds)) return fail(`${file.path} must be an object with a "rounds" list`);
+  const layers = parseLayers(raw.layers);
+  const malicious = new Set(raw.malicious === undefined ? [] : parseIds(raw.malicious, 'malicious'));
+  const fim = raw.fim === undefined ? undefined : toVector(raw.fim, layers, 'fim');
+  let labelled = raw.malicious !== undefined;
+  const rounds = raw.rounds.map((r, k): ImportedRound => {
+    const source = `rounds[${k}]`;
+    if (!isRecord(r) || !Array.isArray(r.clients)) return fail(`${source} must be an object with a "clients" list`);
+    return {
+      source,
+      clients: r.clients.map((c, j) => {
+        const where = `${source}.clients[${j}]`;
+        if (!isRecord(c) || !Number.isInteger(c.id) || c.update === undefined) return fail(`${where} must be { "id": integer, "update": vector }`);
+        if (c.malicious !== undefined) labelled = true;
+        return {
+          id: c.id as number,
+          update: toVector(c.update, layers, `${where}.update`),
+          malicious: c.malicious === true || malicious.has(c.id as number),
+          samples: typeof c.samples === 'number' && c.samples > 0 ? c.samples : 1
+        };
+      }),
+      fim: r.fim === undefined ? fim : toVector(r.fim, layers, `${source}.fim`),
+      root: r.root === undefined ? undefined : toVector(r.root, layers, `${source}.root`),
+      metrics: r.metrics === undefined ? undefined : parseMetrics(r.metrics, `${source}.metrics`)
+    };
+  });
+  return finish(typeof raw.name === 'string' ? raw.name : file.path.replace(/\.json$/, ''), layers, rounds, labelled);
+};
+
+const lastNumber = (s: string) => {
+  const match = /(\d+)(?!.*\d)/.exec(s);
+  return match ? parseInt(match[1], 10) : NaN;
+};
+
+const RESERVED = /^(manifest|labels|metrics|fim|root)\.(json|npy)$/;
+
+const parseDirectoryDump = (name: string, files: DumpFile[]): GradientDump => {
+  const byName = (dir: string, file: string) => files.find(f => f.path === (dir ? `${dir}/${file}` : file));
+  const either = (dir: string, base: string) => byName(dir, `${base}.npy`) ?? byName(dir, `${base}.json`);
+  const manifestFile = byName('', 'manifest.json');
+  const manifest = manifestFile ? parseJSON(manifestFile) : {};
+  if (!isRecord(manifest)) return fail('manifest.json must be an object');
+  const layers = parseLayers(manifest.layers);
+  const malicious = new Set(manifest.malicious === undefined ? [] : parseIds(manifest.malicious, 'manifest.json'));
+  const sharedFIMFile = either('', 'fim');
+  const sharedFIM = sharedFIMFile && readVector(sharedFIMFile, layers);
+  let labelled = malicious.size > 0;
+
+  const dirOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+  const baseOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+  const dirs = [...new Set(files.map(f => dirOf(f.path)).filter(Boolean))]
+    .sort((a, b) => lastNumber(a) - lastNumber(b) || a.localeCompare(b));
+
+  const rounds = dirs.map((dir): ImportedRound => {
+    const clientFiles = files
+      .filter(f => dirOf(f.path) === dir && /\.(npy|json)$/.test(f.path) && !RESERVED.test(baseOf(f.path)))
+      .sort((a, b) => lastNumber(baseOf(a.path)) - lastNumber(baseOf(b.path)));
+    const labelsFile = byName(dir, 'labels.json');
+    const roundMalicious = labelsFile ? new Set(parseIds(parseJSON(labelsFile), labelsFile.path)) : malicious;
+    if (labelsFile) labelled = true;
+    const fimFile = either(dir, 'fim');
+    const rootFile = either(dir, 'root');
+    const metricsFile = byName(dir, 'metrics.json');
+    return {
+      source: dir,
+      clients: clientFiles.map((f, k) => {
+        const id = Number.isNaN(lastNumber(baseOf(f.path))) ? k : lastNumber(baseOf(f.path));
+        return { id, update: readVector(f, layers), malicious: roundMalicious.has(id), samples: 1 };
+      }),
+      fim: fimFile ? readVector(fimFile, layers) : sharedFIM,
+      root: rootFile && readVector(rootFile, layers),
+      metrics: metricsFile && parseMetrics(parseJSON(metricsFile), metricsFile.path)
+    };
+  }).filter(r => r.clients.length > 0);
+  return finish(typeof manifest.name === 'string' ? manifest.name : name, layers, rounds, labelled);
+};
+
+// A lone JSON file is a whole dump; anything else is read as a directory
+export const parseGradientDump = (name: string, files: DumpFile[]): GradientDump =>
+  files.length === 1 && files[0].path.endsWith('.json') && files[0].path !== 'manifest.json'
+    ? parseJSONDump(files[0])
+    : parseDirectoryDump(name, files);
+
+// --- Replay ---
+
+export interface ReplaySummary {
+  name: string;
+  rounds: number;
+  dim: number;
+  labelled: boolean;
+}
+
+export const summarizeReplay = (dump: GradientDump): ReplaySummary =>
+  ({ name: dump.name, rounds: dump.rounds.length, dim: dump.spec.dim, labelled: dump.labelled });
+
+// Every client that reports in some round is registered from the start. The simulated parts of
+// the state (synthetic task, test sets) are kept so it has the usual shape, but are never used.
+export const createReplayState = (seed: number, config: SimulationConfig, dump: GradientDump): SimulationState => {
+  const base = createInitialState(seed, config);
+  const firstSeen = new Map<number, { round: number; type: ClientType }>();
+  dump.rounds.forEach((r, k) => r.clients.forEach(c => {
+    const seen = firstSeen.get(c.id);
+    firstSeen.set(c.id, { round: seen?.round ?? k, type: seen?.type === 'malicious' || c.malicious ? 'malicious' : 'benign' });
+  }));
+  const ids = [...firstSeen.keys()].sort((a, b) => a - b);
+  const globalModel = zeros(dump.spec.dim); // Sum of the aggregated updates so far
+  const globalFIM = zeros(dump.spec.dim).fill(1);
+  return {
+    ...base,
+    modelSpec: dump.spec,
+    globalModel,
+    globalFIM,
+    detectionFIM: zeros(dump.spec.dim).fill(1),
+    globalAccuracy: NaN,
+    backdoorSuccessRate: NaN,
+    attackTarget: { key: '', epoch: 0, indices: new Uint32Array(0) }, // Unknown in a real run
+    recovery: initialRecovery(globalModel, globalFIM, NaN, NaN),
+    population: {
+      clients: ids.map(id => ({ id, type: firstSeen.get(id)!.type, partitionSeed: 0, joinedRound: firstSeen.get(id)!.round })),
+      nextId: (ids[ids.length - 1] ?? -1) + 1,
+      colluderSeed: 0
+    }
+  };
+};
+
+// The dump's next round through the server pipeline. A round's own FIM (or the dump's) replaces
+// the momentum FIM for scoring; without one the server's estimate from accepted updates is used.
+// Recovery is off: the dump's later updates were trained on the real run's model and its metrics
+// measure that model, so a rolled back or unlearned model could be neither continued nor evaluated.
+export const replayRound = (config: SimulationConfig, prev: SimulationState, dump: GradientDump): SimulationState => {
+  const round = dump.rounds[prev.round];
+  if (!round) fail(`the dump has only ${dump.rounds.length} rounds`);
+  if (!round.root && config.detection.thresholdMethod === 'reference') fail(`${round.source} has no root update, which the 'reference' threshold needs`);
+  if (!round.root && config.aggregator.rule === 'fltrust') fail(`${round.source} has no root update, which FLTrust needs`);
+  // Nothing is simulated, but the PRNG still advances so DP noise differs between rounds
+  const rng = createRng(prev.rngState);
+  return serveRound({ ...config, recovery: { ...config.recovery, mode: 'off' } }, prev, {
+    population: prev.population,
+    updates: round.clients.map(c => ({
+      id: c.id,
+      type: c.malicious ? 'malicious' : 'benign',
+      isAttacking: c.malicious,
+      staleness: 0,
+      partitionSeed: 0,
+      dataSize: c.samples,
+      gradient: c.update
+    })),
+    rootGradient: round.root ?? zeros(dump.spec.dim),
+    fim: round.fim ?? prev.globalFIM,
+    rngState: Math.floor(rng.next() * 0x100000000),
+    evaluate: () => round.metrics ?? { acc: NaN, asr: NaN }
+  });
+};
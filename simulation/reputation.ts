@@ -0,0 +1,73 @@
+// --- Client Reputation ---
+// The server remembers how every registered client's updates fared in past rounds. Each round
+// a participant gets evidence in [0, 1] (1 = clean): a stiffness/magnitude violation costs all
+// of it, landing outside the majority cluster costs `clusterPenalty` (clustering also splits off
+// honest clients with unusual data). Reputation is an EMA of that evidence; the evidence lost
+// is also summed into violation points, and banning kicks in once they reach `banAfter`.
+
+export interface ReputationConfig {
+  downweight: boolean; // Scale each accepted update's aggregation weight by the client's reputation
+  ban: boolean; // Reject every future update of a client once it has `banAfter` violations
+  decay: number; // EMA memory: reputation <- decay * reputation + (1 - decay) * evidence
+  clusterPenalty: number; // Evidence lost for being clustered outside the majority
+  banAfter: number; // Violation points before a client is banned
+  initialScore: number; // Reputation of a client the server has not seen yet
+}
+
+export interface ReputationParamSpec {
+  key: Exclude<keyof ReputationConfig, 'downweight' | 'ban'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const REPUTATION_PARAMS: ReputationParamSpec[] = [
+  { key: 'decay', label: 'Memory (记忆衰减)', min: 0, max: 0.99, step: 0.01 },
+  { key: 'clusterPenalty', label: 'Cluster Penalty (聚类离群惩罚)', min: 0, max: 1, step: 0.05 },
+  { key: 'banAfter', label: 'Ban After Violation Points (封禁阈值)', min: 1, max: 20, step: 1 },
+  { key: 'initialScore', label: 'Initial Reputation (初始信誉)', min: 0, max: 1, step: 0.05 }
+];
+
+export const DEFAULT_REPUTATION: ReputationConfig = {
+  downweight: false,
+  ban: false,
+  decay: 0.8,
+  clusterPenalty: 0.5,
+  banAfter: 5,
+  initialScore: 1
+};
+
+export interface ClientReputation {
+  score: number; // In [0, 1]
+  violations: number; // Evidence lost so far: 1 per stiffness violation, clusterPenalty per cluster outlier
+  bannedRound: number; // Round the client earned its ban (0 = never; only enforced while banning is on)
+}
+
+export const newReputation = (config: ReputationConfig): ClientReputation => ({
+  score: config.initialScore,
+  violations: 0,
+  bannedRound: 0
+});
+
+// What a round's detector outcomes say about one participant
+export interface RoundEvidence {
+  stiffnessViolation: boolean; // Stiffness mask (or the magnitude check) rejected it
+  clusterOutlier: boolean; // Clustered outside the majority
+}
+
+export const updateReputation = (
+  rep: ClientReputation,
+  evidence: RoundEvidence,
+  config: ReputationConfig,
+  round: number
+): ClientReputation => {
+  if (config.ban && rep.bannedRound > 0) return rep; // Banned clients are no longer scored
+  const value = evidence.stiffnessViolation ? 0 : evidence.clusterOutlier ? 1 - config.clusterPenalty : 1;
+  const violations = rep.violations + (1 - value);
+  return {
+    score: config.decay * rep.score + (1 - config.decay) * value,
+    violations,
+    bannedRound: rep.bannedRound || (config.ban && violations >= Math.max(1, Math.round(config.banAfter)) ? round : 0)
+  };
+};
@@ -0,0 +1,53 @@
+import { HistoryPoint, SimulationState } from './types';
+import { DetectionMetrics, ScoreSample, pooledDetection } from './metrics';
+
+// --- Run Log ---
+// Every round of a run, kept next to it in the worker (the state keeps only the last
+// HISTORY_WINDOW rounds). A log is appended in place, so a round costs its own point and score
+// samples and nothing more; it is never part of a state, so timeline snapshots do not copy it
+// and worker messages carry only what it sums up.
+
+// What the log keeps of a round for plots and exports
+export type RunPoint = Pick<HistoryPoint, 'round' | 'acc' | 'asr' | 'participants' | 'detection'>;
+
+export interface RunLog {
+  points: RunPoint[]; // points[k] is round k + 1
+  scores: ScoreSample[]; // Every client score of every round, pooled for threshold sweeps
+  scoreEnds: number[]; // scores.length after each round
+  maxAsr: number; // Highest ASR over the logged rounds
+  detection: DetectionMetrics; // Pooled over the logged rounds
+}
+
+export const createRunLog = (): RunLog => ({
+  points: [],
+  scores: [],
+  scoreEnds: [],
+  maxAsr: 0,
+  detection: pooledDetection([])
+});
+
+// Log the round `state` has just finished
+export const appendRound = (log: RunLog, state: SimulationState) => {
+  const { round, acc, asr, participants, detection, scores } = state.history[state.history.length - 1];
+  log.points.push({ round, acc, asr, participants, detection });
+  scores.forEach(s => log.scores.push(s));
+  log.scoreEnds.push(log.scores.length);
+  log.maxAsr = Math.max(log.maxAsr, asr);
+  log.detection = pooledDetection([log.detection, detection]);
+};
+
+// Forget the rounds after `round` (a forked run continues from it)
+export const truncateRunLog = (log: RunLog, round: number) => {
+  const kept = Math.max(0, Math.min(round, log.points.length));
+  log.points.length = kept;
+  log.scoreEnds.length = kept;
+  log.scores.length = kept > 0 ? log.scoreEnds[kept - 1] : 0;
+  log.maxAsr = log.points.reduce((max, p) => Math.max(max, p.asr), 0);
+  log.detection = pooledDetection(log.points.map(p => p.detection));
+};
+
+// Client scores of the rounds up to `round`
+export const scoresUpTo = (log: RunLog, round: number): ScoreSample[] => {
+  const rounds = Math.max(0, Math.min(round, log.points.length));
+  return log.scores.slice(0, rounds > 0 ? log.scoreEnds[rounds - 1] : 0);
+};
@@ -0,0 +1,162 @@
+import { SimulationConfig } from './types';
+import { DEFAULT_CONFIG } from './config';
+import { AGGREGATOR_LABELS } from './aggregators';
+import { ATTACK_LABELS } from './attacks';
+import { THRESHOLD_LABELS, LAYER_WEIGHTING_LABELS } from './detection';
+import { ARCHITECTURE_LABELS, buildModelSpec } from './model';
+import { ATTACKER_PLACEMENT_LABELS } from './population';
+import { PARTITION_LABELS } from './partition';
+import { PRIVACY_MODE_LABELS, PRIVACY_PLACEMENT_LABELS } from './privacy';
+import { TARGET_MODE_LABELS, parseIndexList } from './targets';
+import { RECOVERY_MODE_LABELS } from './recovery';
+
+// --- Scenario Files ---
+// A scenario is everything needed to reproduce an experiment: the full SimulationConfig,
+// the seed and the number of rounds. The browser imports/exports it as JSON or in the URL,
+// and the batch runner takes the same file (`--scenario`), so both produce identical histories.
+
+export const SCENARIO_VERSION = 1;
+
+export interface Scenario {
+  version: number;
+  name: string;
+  description?: string;
+  seed: number;
+  rounds: number; // Rounds to run (0 = until paused; the batch runner then needs --rounds)
+  simSpeed?: number; // Browser only: ms between rounds
+  config: SimulationConfig;
+}
+
+// Allowed values of the string settings (everything else is checked against the default's type)
+const ENUMS: Record<string, readonly string[]> = {
+  'detection.thresholdMethod': Object.keys(THRESHOLD_LABELS),
+  'detection.linkage': ['average', 'complete', 'single'],
+  'detection.layerWeighting': Object.keys(LAYER_WEIGHTING_LABELS),
+  'model.architecture': Object.keys(ARCHITECTURE_LABELS),
+  'population.attackerPlacement': Object.keys(ATTACKER_PLACEMENT_LABELS),
+  'partition.scheme': Object.keys(PARTITION_LABELS),
+  'attack.kind': Object.keys(ATTACK_LABELS),
+  'target.mode': Object.keys(TARGET_MODE_LABELS),
+  'aggregator.rule': Object.keys(AGGREGATOR_LABELS),
+  'privacy.mode': Object.keys(PRIVACY_MODE_LABELS),
+  'privacy.placement': Object.keys(PRIVACY_PLACEMENT_LABELS),
+  'recovery.mode': Object.keys(RECOVERY_MODE_LABELS)
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Fill `raw` in from `defaults`, rejecting unknown keys and values of the wrong type.
+// Missing settings take their default, so older files keep working when settings are added.
+const mergeChecked = (defaults: Record<string, unknown>, raw: unknown, path: string): Record<string, unknown> => {
+  if (!isRecord(raw)) throw new Error(`Scenario: "${path || 'config'}" must be an object`);
+  const unknown = Object.keys(raw).find(key => !(key in defaults));
+  if (unknown) throw new Error(`Scenario: unknown setting "${path ? `${path}.` : ''}${unknown}"`);
+  return Object.fromEntries(Object.entries(defaults).map(([key, fallback]) => {
+    const name = path ? `${path}.${key}` : key;
+    const value = raw[key];
+    if (value === undefined) return [key, fallback];
+    if (isRecord(fallback)) return [key, mergeChecked(fallback, value, name)];
+    if (typeof value !== typeof fallback || (typeof value === 'number' && !Number.isFinite(value))) {
+      throw new Error(`Scenario: "${name}" must be a ${typeof fallback}, got ${JSON.stringify(value)}`);
+    }
+    if (ENUMS[name] && !ENUMS[name].includes(value as string)) {
+      throw new Error(`Scenario: "${name}" must be one of ${ENUMS[name].join(', ')}, got "${value}"`);
+    }
+    return [key, value];
+  }));
+};
+
+const nonNegativeInteger = (value: unknown, name: string): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error(`Scenario: "${name}" must be a non-negative integer, got ${JSON.stringify(value)}`);
+  }
+  return value;
+};
+
+// Validate a parsed scenario file and fill in defaults
+export const parseScenario = (raw: unknown): Scenario => {
+  if (!isRecord(raw)) throw new Error('Scenario: expected a JSON object');
+  if (raw.version !== SCENARIO_VERSION) {
+    throw new Error(`Scenario: unsupported version ${JSON.stringify(raw.version)} (this build reads version ${SCENARIO_VERSION})`);
+  }
+  const scenario: Scenario = {
+    version: SCENARIO_VERSION,
+    name: typeof raw.name === 'string' ? raw.name : 'Untitled',
+    seed: nonNegativeInteger(raw.seed, 'seed') >>> 0,
+    rounds: nonNegativeInteger(raw.rounds ?? 0, 'rounds'),
+    config: mergeChecked(DEFAULT_CONFIG as unknown as Record<string, unknown>, raw.config ?? {}, '') as unknown as SimulationConfig
+  };
+  parseIndexList(scenario.config.target.indices, buildModelSpec(scenario.config.model).dim);
+  if (typeof raw.description === 'string') scenario.description = raw.description;
+  if (raw.simSpeed !== undefined) scenario.simSpeed = nonNegativeInteger(raw.simSpeed, 'simSpeed');
+  return scenario;
+};
+
+export const scenarioFromJSON = (text: string): Scenario => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Scenario: invalid JSON (${err instanceof Error ? err.message : err})`);
+  }
+  return parseScenario(raw);
+};
+
+export const scenarioToJSON = (scenario: Scenario): string => JSON.stringify(scenario, null, 2);
+
+// URL-safe base64 of the compact JSON (UTF-8, so names in any language survive)
+export const encodeScenario = (scenario: Scenario): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(scenario));
+  let binary = '';
+  bytes.forEach(b => binary += String.fromCharCode(b));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeScenario = (encoded: string): Scenario => {
+  let text: string;
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    text = new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+  } catch {
+    throw new Error('Scenario: the link is not a valid encoded scenario');
+  }
+  return scenarioFromJSON(text);
+};
+
+// --- Built-in Presets ---
+
+type ConfigOverrides = { [K in keyof SimulationConfig]?: SimulationConfig[K] extends object ? Partial<SimulationConfig[K]> : SimulationConfig[K] };
+
+const preset = (name: string, description: string, overrides: ConfigOverrides, rounds = 100): Scenario =>
+  parseScenario({ version: SCENARIO_VERSION, name, description, seed: 1, rounds, config: overrides });
+
+export const PRESETS: Record<string, Scenario> = {
+  'iid-no-attack': preset('IID, no attack', 'Clean baseline: IID data and no malicious clients; shows the false-positive cost of each defense.', {
+    population: { maliciousRatio: 0 },
+    partition: { scheme: 'iid' }
+  }),
+  'default-scaling': preset('Model replacement (default)', 'The default settings: a scaled backdoor under moderate Dirichlet label skew.', {}),
+  'noniid-stealthy-backdoor': preset('High Non-IID stealthy backdoor', 'FIM-aware adaptive backdoor that stays under the stiffness threshold, on strongly skewed data (Dirichlet α = 0.1).', {
+    partition: { scheme: 'dirichlet', alpha: 0.1 },
+    attack: { kind: 'adaptive' }
+  }),
+  'alie-vs-robust': preset('ALIE vs. Multi-Krum', 'A Little Is Enough against a distance-based robust aggregator, with the FIM defenses off.', {
+    useMomentumFIM: false,
+    useStiffnessMask: false,
+    useLayerWeightedClustering: false,
+    attack: { kind: 'alie' },
+    aggregator: { rule: 'multiKrum' }
+  }),
+  'cross-device-dba': preset('Cross-device DBA', '100 phones with two classes each, 10% sampled per round, dropouts, stragglers and churn; a distributed backdoor during rounds 20-60.', {
+    population: { numClients: 100, participation: 0.1, dropoutRate: 0.1, stragglerRate: 0.2, churnRate: 0.02, attackStart: 20, attackEnd: 60 },
+    partition: { scheme: 'shards', classesPerClient: 2 },
+    attack: { kind: 'dba' }
+  }),
+  'central-dp-vs-stiffness': preset('Central DP vs. stiffness mask', 'Clipping plus central Gaussian noise (ε = 8 over 100 rounds) against the default backdoor; switch the placement to see what the noise costs detection.', {
+    privacy: { mode: 'central', placement: 'beforeDefense' }
+  }),
+  'cnn-feature-shift': preset('CNN under feature shift', 'Convolutional model whose clients each see inputs with their own fixed offset; scaling attack.', {
+    model: { architecture: 'cnn' },
+    partition: { scheme: 'featureShift', featureShift: 1 }
+  })
+};
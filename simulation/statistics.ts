@@ -0,0 +1,167 @@
+// --- Multi-Seed Statistics ---
+// Confidence intervals over repeated runs and paired tests between two configurations run on
+// the same seeds. Non-finite values (e.g. recall in a round without attackers) are left out.
+
+export interface MeanCI {
+  n: number;
+  mean: number;
+  sd: number; // Sample standard deviation (0 when n < 2)
+  low: number; // 95% Student-t confidence interval of the mean (= mean when n < 2)
+  high: number;
+}
+
+export interface PairedTest {
+  n: number; // Seeds with a finite value in both configurations
+  meanDiff: number; // Mean of (B - A) over the seeds
+  low: number; // 95% confidence interval of meanDiff
+  high: number;
+  t: number;
+  p: number; // Two-sided paired t-test
+  wilcoxonP: number; // Two-sided Wilcoxon signed-rank test (exact up to WILCOXON_EXACT_MAX pairs)
+}
+
+export const CONFIDENCE = 0.95;
+const WILCOXON_EXACT_MAX = 50;
+
+// Lanczos approximation (g = 7), accurate to ~15 digits for x > 0
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Continued fraction of the incomplete beta function (modified Lentz)
+const betaFraction = (a: number, b: number, x: number): number => {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+  for (let m = 1; m <= 300; m++) {
+    for (const num of [m * (b - m) * x / ((a + 2 * m - 1) * (a + 2 * m)), -(a + m) * (a + b + m) * x / ((a + 2 * m) * (a + 2 * m + 1))]) {
+      d = 1 + num * d;
+      d = 1 / (Math.abs(d) < tiny ? tiny : d);
+      c = 1 + num / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-14) break;
+  }
+  return h;
+};
+
+// Regularized incomplete beta I_x(a, b)
+const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2) ? front * betaFraction(a, b, x) / a : 1 - front * betaFraction(b, a, 1 - x) / b;
+};
+
+export const studentTCdf = (t: number, df: number): number => {
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+};
+
+// Inverse of studentTCdf for p in (0.5, 1), by bisection
+export const studentTQuantile = (p: number, df: number): number => {
+  let lo = 0, hi = 1;
+  while (studentTCdf(hi, df) < p) hi *= 2;
+  for (let i = 0; i < 100 && hi - lo > 1e-12; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTCdf(mid, df) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+// Abramowitz & Stegun 7.1.26 (absolute error < 1.5e-7)
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const finite = (values: number[]) => values.filter(v => Number.isFinite(v));
+
+export const meanCI = (values: number[]): MeanCI => {
+  const xs = finite(values);
+  const n = xs.length;
+  if (n === 0) return { n, mean: NaN, sd: NaN, low: NaN, high: NaN };
+  const mean = xs.reduce((a, b) => a + b, 0) / n;
+  if (n < 2) return { n, mean, sd: 0, low: mean, high: mean };
+  const sd = Math.sqrt(xs.reduce((acc, x) => acc + (x - mean) ** 2, 0) / (n - 1));
+  const half = studentTQuantile((1 + CONFIDENCE) / 2, n - 1) * sd / Math.sqrt(n);
+  return { n, mean, sd, low: mean - half, high: mean + half };
+};
+
+// Average ranks of |d| (ties share their mean rank), zeros dropped as in Wilcoxon's original test
+const signedRanks = (diffs: number[]): { rank: number; positive: boolean }[] => {
+  const sorted = diffs.filter(d => d !== 0).sort((x, y) => Math.abs(x) - Math.abs(y));
+  const ranks: { rank: number; positive: boolean }[] = [];
+  for (let i = 0; i < sorted.length;) {
+    let j = i;
+    while (j + 1 < sorted.length && Math.abs(sorted[j + 1]) === Math.abs(sorted[i])) j++;
+    for (let k = i; k <= j; k++) ranks.push({ rank: (i + j) / 2 + 1, positive: sorted[k] > 0 });
+    i = j + 1;
+  }
+  return ranks;
+};
+
+// Two-sided p of the positive rank sum. Exact: the null distribution over all 2^n sign flips,
+// built on doubled ranks (integers even with ties); beyond that the tie-corrected normal approximation.
+const wilcoxonP = (diffs: number[]): number => {
+  const ranks = signedRanks(diffs);
+  const n = ranks.length;
+  if (n === 0) return 1;
+  const w = ranks.reduce((acc, r) => acc + (r.positive ? r.rank : 0), 0);
+  if (n <= WILCOXON_EXACT_MAX) {
+    const doubled = ranks.map(r => Math.round(2 * r.rank));
+    const total = doubled.reduce((a, b) => a + b, 0);
+    let dist = new Float64Array(total + 1);
+    dist[0] = 1;
+    for (const r of doubled) {
+      const next = new Float64Array(total + 1);
+      for (let s = 0; s <= total; s++) {
+        if (dist[s] === 0) continue;
+        next[s] += dist[s] / 2;
+        next[s + r] += dist[s] / 2;
+      }
+      dist = next;
+    }
+    const at = Math.round(2 * w);
+    let below = 0, above = 0;
+    for (let s = 0; s <= total; s++) {
+      if (s <= at) below += dist[s];
+      if (s >= at) above += dist[s];
+    }
+    return Math.min(1, 2 * Math.min(below, above));
+  }
+  const mean = n * (n + 1) / 4;
+  const tieGroups = new Map<number, number>();
+  ranks.forEach(r => tieGroups.set(r.rank, (tieGroups.get(r.rank) ?? 0) + 1));
+  const tieCorrection = Array.from(tieGroups.values()).reduce((acc, t) => acc + t * t * t - t, 0) / 48;
+  const sd = Math.sqrt(n * (n + 1) * (2 * n + 1) / 24 - tieCorrection);
+  const z = (Math.abs(w - mean) - 0.5) / sd; // Continuity-corrected
+  return Math.min(1, 2 * (1 - normalCdf(Math.max(0, z))));
+};
+
+// `a[k]` and `b[k]` come from the same seed; pairs with a non-finite side are dropped
+export const pairedTest = (a: number[], b: number[]): PairedTest => {
+  const diffs = a.map((x, k) => b[k] - x).filter(d => Number.isFinite(d));
+  const { n, mean, sd, low, high } = meanCI(diffs);
+  if (n < 2) return { n, meanDiff: mean, low, high, t: NaN, p: NaN, wilcoxonP: NaN };
+  // Identical runs (sd = 0): no evidence of a difference, or a certain one
+  const t = sd > 0 ? mean / (sd / Math.sqrt(n)) : mean === 0 ? 0 : Math.sign(mean) * Infinity;
+  const p = sd > 0 ? 2 * (1 - studentTCdf(Math.abs(t), n - 1)) : mean === 0 ? 1 : 0;
+  return { n, meanDiff: mean, low, high, t, p, wilcoxonP: wilcoxonP(diffs) };
+};
@@ -0,0 +1,204 @@
+import { Client, SimulationConfig, SimulationState } from './types';
+import { ModelSpec } from './model';
+import { Projection, ProjectionMethod, project } from './projection';
+import { AblationRun, AblationSummary, DefenseToggles } from './ablation';
+import { RunLog, RunPoint, scoresUpTo } from './runlog';
+import { SweepScore, ThresholdSweep, sweepThresholds } from './metrics';
+import { Timeline, TimelineConfig, snapshotBytes } from './timeline';
+import { Vector, maxOf, kthSmallest } from './math';
+import { ClientForensics } from './forensics';
+import { DumpFile, ReplaySummary } from './replay';
+import { RepeatSummary } from './repeat';
+import { RecoveryEvent } from './recovery';
+
+// --- Round Summaries & Worker Protocol ---
+// The browser runs the simulation in a Web Worker (worker.ts). After every request the worker
+// posts back a summary of the state: everything except the parameter-sized vectors (models,
+// updates, FIM, FoolsGold sums), which stay in the worker, plus the reductions of them the
+// panels draw. A panel that needs more asks for it with a request of its own.
+
+export type ClientSummary = Omit<Client, 'gradient'>;
+
+// One FIM bar: the parameters [start, end) of a layer
+export interface FIMBar {
+  start: number;
+  end: number;
+  max: number;
+  mean: number;
+  targeted: boolean; // Contains a parameter the attackers target (SimulationState.attackTarget)
+}
+
+export interface FIMLayerSummary {
+  bars: FIMBar[]; // At most FIM_BARS_PER_LAYER buckets
+  total: FIMBar; // The whole layer as one bar
+}
+
+export interface FIMSummary {
+  layers: FIMLayerSummary[]; // Same order as ModelSpec.layers
+  max: number;
+  quantiles: number[]; // FIM value at each of STIFFNESS_QUANTILES: bars above one are "high stiffness" at that level
+}
+
+// Quantiles the heatmap can mark high stiffness from (0.9 = the top 10% of the FIM)
+export const STIFFNESS_QUANTILES = [0.5, 0.75, 0.9, 0.95, 0.99];
+
+// The attackers' current targets, without the (parameter-sized) index list
+export interface TargetSummary {
+  count: number;
+  preview: number[]; // The first few indices
+  epoch: number; // Times the targets have moved
+  stiffShare: number[]; // Share of the targets whose momentum FIM is above each of FIM.quantiles
+}
+
+// The recovery ledger without its checkpoints and per-client sums (parameter-sized)
+export interface RecoverySummary {
+  checkpoints: number[]; // Rounds a rollback could restore
+  events: RecoveryEvent[];
+  roundsLost: number;
+}
+
+type WorkerOnly = 'globalFIM' | 'detectionFIM' | 'globalModel' | 'recentModels' | 'foolsGoldHistory' | 'dataModel' | 'testSets' | 'clients' | 'attackTarget' | 'recovery';
+
+export interface StateSummary extends Omit<SimulationState, WorkerOnly> {
+  clients: ClientSummary[];
+  fim: FIMSummary; // Momentum FIM, bucketed per layer
+  target: TargetSummary;
+  recovery: RecoverySummary;
+}
+
+export interface AblationRunSummary extends Omit<AblationRun, 'state' | 'log'> {
+  state: StateSummary;
+  summary: AblationSummary; // Over every round so far
+  point: RunPoint | null; // The latest round (null before the first); the UI appends it to its plots
+}
+
+// Bars per layer; larger layers are bucketed (each bar shows its bucket's max)
+export const FIM_BARS_PER_LAYER = 64;
+
+const fimBar = (fim: Vector, start: number, end: number): FIMBar => {
+  let max = -Infinity, sum = 0;
+  for (let i = start; i < end; i++) {
+    max = Math.max(max, fim[i]);
+    sum += fim[i];
+  }
+  return { start, end, max, mean: sum / (end - start), targeted: false };
+};
+
+export const summarizeFIM = (fim: Vector, spec: ModelSpec, targets: Uint32Array): FIMSummary => {
+  const layers = spec.layers.map(layer => {
+    const bucketSize = Math.ceil(layer.size / FIM_BARS_PER_LAYER);
+    const bars = Array.from({ length: Math.ceil(layer.size / bucketSize) }, (_, b) => {
+      const start = layer.offset + b * bucketSize;
+      return fimBar(fim, start, Math.min(layer.offset + layer.size, start + bucketSize));
+    });
+    return { bars, total: fimBar(fim, layer.offset, layer.offset + layer.size), bucketSize };
+  });
+  targets.forEach(i => {
+    const l = spec.layers.findIndex(layer => i >= layer.offset && i < layer.offset + layer.size);
+    const { bars, total, bucketSize } = layers[l];
+    bars[Math.floor((i - spec.layers[l].offset) / bucketSize)].targeted = total.targeted = true;
+  });
+  return {
+    layers: layers.map(({ bars, total }) => ({ bars, total })),
+    max: maxOf(fim),
+    quantiles: STIFFNESS_QUANTILES.map(q => kthSmallest(fim, Math.floor(q * (fim.length - 1))))
+  };
+};
+
+const TARGET_PREVIEW = 8;
+
+export const summarizeState = (state: SimulationState): StateSummary => {
+  const { globalFIM, detectionFIM, globalModel, recentModels, foolsGoldHistory, dataModel, testSets, clients, attackTarget, recovery, ...rest } = state;
+  const fim = summarizeFIM(globalFIM, state.modelSpec, attackTarget.indices);
+  const { indices } = attackTarget;
+  return {
+    ...rest,
+    clients: clients.map(({ gradient, ...client }) => client),
+    fim,
+    target: {
+      count: indices.length,
+      preview: Array.from(indices.subarray(0, TARGET_PREVIEW)),
+      epoch: attackTarget.epoch,
+      stiffShare: fim.quantiles.map(cutoff => {
+        let above = 0;
+        indices.forEach(i => { if (globalFIM[i] > cutoff) above++; });
+        return indices.length > 0 ? above / indices.length : 0;
+      })
+    },
+    recovery: {
+      checkpoints: recovery.checkpoints.map(c => c.round),
+      events: recovery.events,
+      roundsLost: recovery.roundsLost
+    }
+  };
+};
+
+// Threshold sweep over the pooled client scores of every round up to the shown one. AUC and AP
+// are computed on every distinct score; the curve is thinned to at most SWEEP_POINTS points.
+export interface SweepSummary extends ThresholdSweep {
+  rounds: number; // Rounds pooled
+}
+
+export const SWEEP_POINTS = 200;
+
+export const summarizeSweep = (log: RunLog, round: number, score: SweepScore): SweepSummary => {
+  const sweep = sweepThresholds(scoresUpTo(log, round).map(s => ({ score: s[score], malicious: s.malicious })));
+  const { points } = sweep;
+  const stride = Math.ceil(points.length / SWEEP_POINTS);
+  return {
+    ...sweep,
+    points: stride <= 1 ? points : points.filter((_, k) => k % stride === 0 || k === points.length - 1),
+    rounds: Math.min(round, log.points.length)
+  };
+};
+
+// Which rounds the single run can show
+export interface TimelineSummary {
+  first: number; // Oldest stored round
+  last: number; // The run's latest round
+  viewing: number; // Round the panels show
+  bytes: number; // Approximate memory held by the stored rounds
+}
+
+export const summarizeTimeline = (timeline: Timeline, viewing: number): TimelineSummary => ({
+  first: timeline.snapshots[0].round,
+  last: timeline.snapshots[timeline.snapshots.length - 1].round,
+  viewing,
+  bytes: timeline.snapshots.reduce((acc, s) => acc + snapshotBytes(s), 0)
+});
+
+// How the scatter panel wants the round's updates projected
+export interface ProjectionView {
+  method: ProjectionMethod;
+  weighted: boolean; // Scale by the FIM the defense scored the round with
+}
+
+export const DEFAULT_PROJECTION_VIEW: ProjectionView = { method: 'pca', weighted: true };
+
+// Project with the FIM the defense scored this round with, so distances match what it saw
+export const projectClients = (state: SimulationState, view: ProjectionView): Projection =>
+  state.clients.length === 0 ? { points: [] } : project(
+    view.method,
+    state.clients.map(c => c.gradient),
+    view.weighted ? state.detectionFIM : undefined
+  );
+
+// Every request is answered with exactly one response
+export type WorkerRequest =
+  | { type: 'reset'; target: 'single'; seed: number; config: SimulationConfig }
+  | { type: 'reset'; target: 'ablation'; seed: number; config: SimulationConfig; variants: DefenseToggles[] }
+  | { type: 'reset'; target: 'repeat'; seed: number; seeds: number; config: SimulationConfig; variants: DefenseToggles[] } // `seeds` runs per variant
+  | { type: 'import'; seed: number; config: SimulationConfig; name: string; files: DumpFile[] } // Replace the single run with a replay of a gradient dump
+  | { type: 'step'; target: 'single' | 'ablation' | 'repeat'; config: SimulationConfig; roundLimit: number } // roundLimit 0 = none
+  | { type: 'projection'; view: ProjectionView }
+  | { type: 'curve'; score: SweepScore } // Score the threshold sweep runs over
+  | { type: 'seek'; round: number | null } // Show a stored round (null = follow the latest)
+  | { type: 'fork'; round: number } // Continue the run from a stored round, dropping the later ones
+  | { type: 'timeline'; config: TimelineConfig }
+  | { type: 'inspect'; clientId: number | null }; // Client the forensics panel shows (null = none)
+
+export type WorkerResponse =
+  | { type: 'single'; state: StateSummary; projection: Projection; sweep: SweepSummary; timeline: TimelineSummary; forensics: ClientForensics | null; replay: ReplaySummary | null }
+  | { type: 'ablation'; runs: AblationRunSummary[] }
+  | { type: 'repeat'; summary: RepeatSummary }
+  | { type: 'error'; message: string };
@@ -0,0 +1,156 @@
+import { ModelSpec, backdoorParams } from './model';
+import { Vector, createRng, kthSmallest } from './math';
+
+// --- Attack Target Region ---
+// Which parameters the attackers' malicious updates may change. By default ('full') a crafted
+// update goes wherever poisoned training takes it, and the parameters reading the trigger are
+// the ones the backdoor has to move. In every other mode the attackers also train an honest
+// reference update and send it with only the target parameters replaced by their crafted
+// values, e.g. to hide the backdoor in the low-FIM parameters the stiffness mask weighs least.
+//
+// Targets can move: every `moveEvery` rounds an index set shifts by its own span, a layer
+// target moves to the next layer, and random and low-FIM targets are drawn again. Low-FIM
+// targets are defined by the server's current momentum FIM, so with `moveEvery` 0 they follow
+// it every round. The trigger itself lives in the data and never moves.
+
+export type TargetMode = 'full' | 'trigger' | 'indices' | 'layer' | 'random' | 'lowFim';
+
+export const TARGET_MODE_LABELS: Record<TargetMode, string> = {
+  full: 'Unrestricted (不限制)',
+  trigger: 'Trigger Weights (触发器参数)',
+  indices: 'Index Set (指定索引)',
+  layer: 'One Layer (单层)',
+  random: 'Random Subset (随机子集)',
+  lowFim: 'Lowest FIM (低 FIM 参数)'
+};
+
+export interface TargetConfig {
+  mode: TargetMode;
+  indices: string; // 'indices': e.g. "0-4, 9, 20-31" (each below the parameter count)
+  layer: number; // 'layer': index into ModelSpec.layers (modulo the layer count)
+  fraction: number; // 'random' / 'lowFim': share of all parameters targeted
+  moveEvery: number; // Rounds between moves (0 = fixed)
+}
+
+export interface TargetParamSpec {
+  key: 'fraction' | 'moveEvery';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  modes: TargetMode[]; // Modes the setting applies to
+}
+
+export const TARGET_PARAMS: TargetParamSpec[] = [
+  { key: 'fraction', label: 'Target Fraction (目标参数比例)', min: 0.01, max: 0.5, step: 0.01, modes: ['random', 'lowFim'] },
+  { key: 'moveEvery', label: 'Move Every N Rounds (0 = 固定)', min: 0, max: 50, step: 1, modes: ['indices', 'layer', 'random', 'lowFim'] }
+];
+
+export const DEFAULT_TARGET: TargetConfig = {
+  mode: 'full',
+  indices: '0-4',
+  layer: 0,
+  fraction: 0.1,
+  moveEvery: 0
+};
+
+// e.g. 'full', 'lowFim:0.1', 'indices:0-4;9/move=10' (no commas, so it fits a CSV cell)
+export const targetLabel = (target: TargetConfig): string => {
+  const setting = target.mode === 'indices' ? target.indices.trim().split(/[\s,]+/).join(';')
+    : target.mode === 'layer' ? String(target.layer)
+    : target.mode === 'random' || target.mode === 'lowFim' ? String(target.fraction)
+    : '';
+  const move = target.mode !== 'full' && target.mode !== 'trigger' && target.moveEvery > 0 ? `/move=${target.moveEvery}` : '';
+  return `${target.mode}${setting ? `:${setting}` : ''}${move}`;
+};
+
+// "0-4, 9, 20-31" -> [0, 1, 2, 3, 4, 9, 20, ..., 31] (sorted, without duplicates).
+// Every index must lie below `dim`; bounds are checked before a range is expanded.
+export const parseIndexList = (text: string, dim: number): number[] => {
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  if (tokens.length === 0) throw new Error('Target: the index set is empty');
+  const indices = new Set<number>();
+  tokens.forEach(token => {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(token);
+    if (!match) throw new Error(`Target: "${token}" is not an index or a range like 4-9`);
+    const from = parseInt(match[1], 10);
+    const to = match[2] === undefined ? from : parseInt(match[2], 10);
+    if (to < from) throw new Error(`Target: the range "${token}" is reversed`);
+    if (to >= dim) throw new Error(`Target: "${token}" is outside the model's ${dim} parameters`);
+    for (let i = from; i <= to; i++) indices.add(i);
+  });
+  return Array.from(indices).sort((a, b) => a - b);
+};
+
+// The target set the attackers used in a round (kept in SimulationState until it moves)
+export interface AttackTarget {
+  key: string; // Settings it was selected with
+  epoch: number; // Move count it was selected at
+  indices: Uint32Array; // Sorted parameter indices
+}
+
+const targetEpoch = (target: TargetConfig, round: number) =>
+  target.mode === 'full' || target.mode === 'trigger' ? 0
+    : target.moveEvery > 0 ? Math.floor((round - 1) / target.moveEvery)
+    : target.mode === 'lowFim' ? round : 0;
+
+const sorted = (indices: Iterable<number>) => Uint32Array.from(new Set(indices)).sort();
+
+const selectIndices = (target: TargetConfig, spec: ModelSpec, fim: Vector, seed: number, epoch: number): Uint32Array => {
+  const count = Math.max(1, Math.min(spec.dim, Math.round(target.fraction * spec.dim)));
+  switch (target.mode) {
+    case 'full':
+    case 'trigger':
+      return sorted(backdoorParams(spec));
+    case 'indices': {
+      const base = parseIndexList(target.indices, spec.dim);
+      const span = base[base.length - 1] - base[0] + 1;
+      return sorted(base.map(i => (i + epoch * span) % spec.dim));
+    }
+    case 'layer': {
+      const layer = spec.layers[(target.layer + epoch) % spec.layers.length];
+      return Uint32Array.from({ length: layer.size }, (_, i) => layer.offset + i);
+    }
+    case 'random': {
+      // Own stream per move, so the draw leaves the round's participants and data unchanged
+      const rng = createRng((seed ^ Math.imul(epoch + 1, 0x9e3779b1)) >>> 0);
+      const pool = Uint32Array.from({ length: spec.dim }, (_, i) => i);
+      for (let k = 0; k < count; k++) {
+        const j = k + Math.floor(rng.next() * (spec.dim - k));
+        const t = pool[k]; pool[k] = pool[j]; pool[j] = t;
+      }
+      return pool.slice(0, count).sort();
+    }
+    case 'lowFim': {
+      // The `count` smallest FIM entries; ties go to the lower index
+      const cutoff = kthSmallest(fim, count - 1);
+      const picked: number[] = [];
+      for (let i = 0; i < spec.dim; i++) if (fim[i] < cutoff) picked.push(i);
+      for (let i = 0; i < spec.dim && picked.length < count; i++) if (fim[i] === cutoff) picked.push(i);
+      return sorted(picked);
+    }
+  }
+};
+
+// Targets for `round`, selected with the FIM the server scores that round with
+export const selectAttackTarget = (target: TargetConfig, spec: ModelSpec, fim: Vector, seed: number, round: number): AttackTarget => {
+  const epoch = targetEpoch(target, round);
+  return { key: JSON.stringify(target), epoch, indices: selectIndices(target, spec, fim, seed, epoch) };
+};
+
+// The previous round's targets while the settings are unchanged and the targets have not moved
+export const nextAttackTarget = (target: TargetConfig, prev: AttackTarget, spec: ModelSpec, fim: Vector, seed: number, round: number): AttackTarget =>
+  prev.key === JSON.stringify(target) && prev.epoch === targetEpoch(target, round)
+    ? prev
+    : selectAttackTarget(target, spec, fim, seed, round);
+
+// The honest reference update with the target parameters taken from the crafted one
+export const confineUpdate = (honest: Vector, crafted: Vector, indices: Uint32Array): Vector => {
+  const out = honest.slice();
+  indices.forEach(i => out[i] = crafted[i]);
+  return out;
+};
+
+// The reference training draws from its own stream, so confining the attack changes no other
+// draw of the round (see privacyRng)
+export const targetRng = (rngState: number) => createRng((rngState ^ 0x2545f491) >>> 0);
@@ -0,0 +1,54 @@
+import { SimulationState } from './types';
+
+// --- Round Snapshots ---
+// The full state after every round (clients with their updates, scores and accept decisions,
+// FIM, global model) is kept so past rounds can be inspected again or forked. runRound never
+// mutates its input, so a snapshot is just a reference to that round's state: only the
+// parameter-sized vectors each round creates cost memory.
+
+export interface TimelineConfig {
+  capacity: number; // Rounds kept (oldest dropped first) unless keepAll
+  keepAll: boolean; // Keep every round of the run
+}
+
+export const DEFAULT_TIMELINE: TimelineConfig = {
+  capacity: 100,
+  keepAll: false
+};
+
+export interface Timeline {
+  config: TimelineConfig;
+  snapshots: SimulationState[]; // Consecutive rounds, oldest first; the last one is the run's head
+}
+
+const bound = (snapshots: SimulationState[], config: TimelineConfig) =>
+  config.keepAll ? snapshots : snapshots.slice(-Math.max(1, Math.round(config.capacity)));
+
+export const createTimeline = (state: SimulationState, config: TimelineConfig = DEFAULT_TIMELINE): Timeline =>
+  ({ config, snapshots: [state] });
+
+export const headOf = (timeline: Timeline) => timeline.snapshots[timeline.snapshots.length - 1];
+
+export const recordSnapshot = (timeline: Timeline, state: SimulationState): Timeline =>
+  ({ ...timeline, snapshots: bound([...timeline.snapshots, state], timeline.config) });
+
+// Changing the retention drops whatever no longer fits
+export const withTimelineConfig = (timeline: Timeline, config: TimelineConfig): Timeline =>
+  ({ config, snapshots: bound(timeline.snapshots, config) });
+
+export const snapshotAt = (timeline: Timeline, round: number): SimulationState | undefined =>
+  timeline.snapshots[round - timeline.snapshots[0].round];
+
+// Drop every snapshot after `round`, so the next round continues from it (with whatever
+// settings it is run with). The architecture and registered population stay those of the run.
+export const forkAt = (timeline: Timeline, round: number): Timeline => {
+  if (!snapshotAt(timeline, round)) throw new Error(`Timeline: round ${round} is no longer stored`);
+  return { ...timeline, snapshots: timeline.snapshots.slice(0, round - timeline.snapshots[0].round + 1) };
+};
+
+// Memory a snapshot adds on top of the previous one: its clients' updates, the new global
+// model and FIM, and the per-client sums of FoolsGold and unlearning (other vectors, recovery
+// checkpoints included, are shared between rounds)
+export const snapshotBytes = (state: SimulationState) =>
+  (state.clients.length + 2 + Object.keys(state.foolsGoldHistory).length + Object.keys(state.recovery.contributions).length)
+    * state.modelSpec.dim * Float32Array.BYTES_PER_ELEMENT;
@@ -0,0 +1,125 @@
+import { AggregatorConfig } from './aggregators';
+import { AttackConfig } from './attacks';
+import { DetectionConfig } from './detection';
+import { DataModel, TestSets } from './dataset';
+import { ModelConfig, ModelSpec } from './model';
+import { Population, PopulationConfig } from './population';
+import { PartitionConfig } from './partition';
+import { ClientReputation, ReputationConfig } from './reputation';
+import { PrivacyConfig, PrivacyLedger } from './privacy';
+import { AttackTarget, TargetConfig } from './targets';
+import { RecoveryConfig, RecoveryEvent, RecoveryLedger } from './recovery';
+import { DetectionMetrics, ScoreSample } from './metrics';
+import { Vector } from './math';
+
+// --- Types & Constants ---
+
+export type ClientType = 'benign' | 'malicious';
+
+export interface Client {
+  id: number; // Persistent client id (see SimulationState.population)
+  type: ClientType;
+  isAttacking: boolean; // Malicious and inside the attack window: sent a crafted update this round
+  staleness: number; // Rounds the global model it trained on was out of date (stragglers; 0 = current)
+  gradient: Vector; // Local update (pseudo-gradient: global - local params after local SGD)
+  partitionSeed: number; // Determines the client's local data distribution (see partition.ts)
+  dataSize: number; // Local samples the client trained on and reported (FedAvg weight)
+  stiffnessViolationScore: number;
+  layerStiffness: number[]; // Per-layer stiffness score (relative to the round median of that layer)
+  distanceScore: number; // Layer-weighted FIM distance to the round's coordinate-wise median update
+  isAccepted: boolean;
+  isBanned: boolean; // Rejected without scoring: banned for repeated violations
+  reputation: number; // Reputation the server held for the client when the round started
+  aggregationWeight: number; // Share of this round's global update contributed by the client
+  clusterId: number; // FIM-weighted clustering label (0 = majority cluster, -1 = not clustered)
+}
+
+// Thresholds the detectors used in a round (only those that ran are set)
+export interface RoundThresholds {
+  stiffness?: number; // On stiffnessViolationScore (relative to the round median)
+  clusterCut?: number; // Dendrogram cut height (FIM-weighted cosine distance)
+  magnitude?: number; // On the update L2 norm (control group)
+}
+
+export interface HistoryPoint {
+  round: number;
+  acc: number;
+  asr: number;
+  participants: number; // Clients that reported this round
+  detection: DetectionMetrics; // Confusion counts and rates of the round's accept/reject decisions
+  scores: ScoreSample[]; // Every client's scores, for threshold sweeps (ROC/PR)
+  reputation: Record<number, number>; // Every registered client's reputation after the round, by id
+  recovery: RecoveryEvent | null; // Rollback or unlearning the round ended with (acc/asr are after it)
+}
+
+export interface SimulationState {
+  seed: number; // Seed the run was started from; same seed + same settings => same history
+  rngState: number; // PRNG state after the last round
+  round: number;
+  globalAccuracy: number; // Global model accuracy on the clean test set
+  backdoorSuccessRate: number; // Share of triggered test samples classified as the backdoor target
+  globalFIM: Vector; // Momentum FIM, estimated from accepted updates
+  detectionFIM: Vector; // FIM the last round's clients were scored and clustered with
+  layerWeights: number[]; // Per-layer weights of the clustering distance in the last round
+  modelSpec: ModelSpec; // Layer layout of every parameter-sized vector below (fixed for the run)
+  globalModel: Vector; // Global parameter vector, updated from the aggregated accepted updates
+  recentModels: Vector[]; // Previous global models, newest first (what stragglers train on)
+  population: Population; // Registered clients; each round's participants are sampled from it
+  foolsGoldHistory: Record<number, Vector>; // Running sum of accepted updates per client id (only kept while FoolsGold aggregates)
+  reputation: Record<number, ClientReputation>; // Per registered client id: reputation, violations and ban
+  privacy: PrivacyLedger; // Privacy budget spent by the rounds run with DP on
+  recovery: RecoveryLedger; // Recent checkpoints and every rollback/unlearning event so far
+  attackTarget: AttackTarget; // Parameters the attackers target (those of the next round in a fresh state)
+  dataModel: DataModel; // Synthetic task every client samples its local data from
+  testSets: TestSets;
+  thresholds: RoundThresholds; // Detection thresholds used in the last round
+  clients: Client[]; // This round's participants
+  history: HistoryPoint[]; // The last HISTORY_WINDOW rounds (every round is kept in the worker's run log, runlog.ts)
+}
+
+// Everything a round needs to know besides the previous state
+export interface SimulationConfig {
+  // Defense Toggles
+  useMomentumFIM: boolean;
+  useStiffnessMask: boolean;
+  useLayerWeightedClustering: boolean;
+
+  // Momentum FIM estimation
+  fimDecay: number; // EMA decay of the momentum FIM (ignored when useMomentumFIM is off)
+  fimRefreshInterval: number; // Re-estimate the FIM every N rounds
+
+  // How detection thresholds are derived from each round's statistics
+  detection: DetectionConfig;
+
+  // Architecture a new run starts with (createInitialState); a running simulation keeps its own spec
+  model: ModelConfig;
+
+  // Who is registered, who reports each round and when attackers are active
+  population: PopulationConfig;
+
+  // How local data differs between clients (Non-IID)
+  partition: PartitionConfig;
+
+  // Behaviour of the malicious clients
+  attack: AttackConfig;
+
+  // Parameters the malicious updates are confined to, and how they move over rounds
+  target: TargetConfig;
+
+  // Server-side aggregation of the accepted updates
+  aggregator: AggregatorConfig;
+
+  // Memory of past detector outcomes per client: down-weighting and banning
+  reputation: ReputationConfig;
+
+  // Update clipping and Gaussian noise, before or after the FIM defenses
+  privacy: PrivacyConfig;
+
+  // Checkpoints, and rolling back or unlearning once a malicious update got through
+  recovery: RecoveryConfig;
+}
+
+export const NUM_FEATURES = 16; // 4x4 input "image"
+export const NUM_CLASSES = 4;
+export const SERVER_LR = 1.0; // Global model step size applied to the aggregated update
+export const HISTORY_WINDOW = 50; // Rounds kept in SimulationState.history
@@ -0,0 +1,150 @@
+import { createInitialState, runRound } from './engine';
+import { AblationRun, createAblation, stepAblation, summarizeAblationRun } from './ablation';
+import { Repeat, EMPTY_REPEAT, createRepeat, stepRepeat, summarizeRepeat } from './repeat';
+import { Timeline, DEFAULT_TIMELINE, createTimeline, headOf, recordSnapshot, withTimelineConfig, snapshotAt, forkAt } from './timeline';
+import { clientForensics } from './forensics';
+import { GradientDump, parseGradientDump, createReplayState, replayRound, summarizeReplay } from './replay';
+import { RunLog, appendRound, createRunLog, truncateRunLog } from './runlog';
+import { SweepScore } from './metrics';
+import {
+  WorkerRequest, WorkerResponse, DEFAULT_PROJECTION_VIEW, summarizeState, summarizeSweep, summarizeTimeline, projectClients
+} from './summary';
+
+// --- Simulation Worker ---
+// Holds the browser's single run (with its stored rounds), ablation and repeat runs and advances them
+// off the UI thread. Full states never leave the worker; every request is answered with a
+// summary (summary.ts).
+
+const scope = self as unknown as Worker; // tsconfig has the DOM lib, not WebWorker
+
+let timeline: Timeline | null = null;
+let log: RunLog = createRunLog(); // Every round of the single run, up to its latest
+let timelineConfig = DEFAULT_TIMELINE;
+let viewing: number | null = null; // Stored round the panels show (null = the latest)
+let dump: GradientDump | null = null; // Imported updates the single run replays (null = simulated)
+let ablation: AblationRun[] = [];
+let repeat: Repeat = EMPTY_REPEAT;
+let projectionView = DEFAULT_PROJECTION_VIEW;
+let sweepScore: SweepScore = 'stiffness';
+let inspected: number | null = null; // Client id of the forensics panel
+
+const post = (response: WorkerResponse) => scope.postMessage(response);
+
+const requireTimeline = () => {
+  if (!timeline) throw new Error('Simulation worker: no run has been started');
+  return timeline;
+};
+
+const postSingle = () => {
+  const t = requireTimeline();
+  // A round dropped from the buffer while viewed falls back to the oldest stored one
+  const state = viewing === null ? headOf(t) : snapshotAt(t, viewing) ?? t.snapshots[0];
+  post({
+    type: 'single',
+    state: summarizeState(state),
+    projection: projectClients(state, projectionView),
+    sweep: summarizeSweep(log, state.round, sweepScore),
+    timeline: summarizeTimeline(t, state.round),
+    // Follows the shown round; null while the client did not report in it
+    forensics: inspected === null ? null : clientForensics(state, inspected),
+    replay: dump && summarizeReplay(dump)
+  });
+};
+
+const postAblation = () => post({
+  type: 'ablation',
+  runs: ablation.map(run => ({
+    label: run.label,
+    toggles: run.toggles,
+    state: summarizeState(run.state),
+    summary: summarizeAblationRun(run),
+    point: run.log.points[run.log.points.length - 1] ?? null
+  }))
+});
+
+const postRepeat = () => post({ type: 'repeat', summary: summarizeRepeat(repeat) });
+
+const handle = (request: WorkerRequest) => {
+  switch (request.type) {
+    case 'reset':
+      if (request.target === 'single') {
+        timeline = createTimeline(createInitialState(request.seed, request.config), timelineConfig);
+        log = createRunLog();
+        viewing = null;
+        dump = null;
+        return postSingle();
+      }
+      if (request.target === 'repeat') {
+        repeat = createRepeat(request.seed, request.seeds, request.config, request.variants);
+        return postRepeat();
+      }
+      ablation = createAblation(request.seed, request.config, request.variants);
+      return postAblation();
+
+    case 'import': {
+      const parsed = parseGradientDump(request.name, request.files);
+      timeline = createTimeline(createReplayState(request.seed, request.config, parsed), timelineConfig);
+      log = createRunLog();
+      viewing = null;
+      dump = parsed;
+      return postSingle();
+    }
+
+    case 'step': {
+      const done = (round: number) => request.roundLimit > 0 && round >= request.roundLimit;
+      if (request.target === 'single') {
+        // Stepping always advances the latest round, and the panels follow it again
+        const head = headOf(requireTimeline());
+        const exhausted = dump !== null && head.round >= dump.rounds.length; // A replay ends with the dump
+        if (!done(head.round) && !exhausted) {
+          const next = dump ? replayRound(request.config, head, dump) : runRound(request.config, head);
+          timeline = recordSnapshot(requireTimeline(), next);
+          appendRound(log, next);
+        }
+        viewing = null;
+        return postSingle();
+      }
+      if (request.target === 'repeat') {
+        if (repeat.runs.length > 0 && !done(repeat.runs[0].state.round)) repeat = stepRepeat(request.config, repeat);
+        return postRepeat();
+      }
+      if (ablation.length > 0 && !done(ablation[0].state.round)) ablation = stepAblation(request.config, ablation);
+      return postAblation();
+    }
+
+    case 'projection':
+      projectionView = request.view;
+      return postSingle();
+
+    case 'curve':
+      sweepScore = request.score;
+      return postSingle();
+
+    case 'seek':
+      viewing = request.round === null || request.round >= headOf(requireTimeline()).round ? null : request.round;
+      return postSingle();
+
+    case 'fork':
+      timeline = forkAt(requireTimeline(), request.round);
+      truncateRunLog(log, request.round);
+      viewing = null;
+      return postSingle();
+
+    case 'timeline':
+      timelineConfig = request.config;
+      timeline = withTimelineConfig(requireTimeline(), timelineConfig);
+      return postSingle();
+
+    case 'inspect':
+      inspected = request.clientId;
+      return postSingle();
+  }
+};
+
+scope.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  try {
+    handle(event.data);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};